@@ -0,0 +1,294 @@
+import { DEFAULT_REPLAY_PORT } from '../replay/server';
+
+/**
+ * Environment profiles for the test suite.
+ * The active profile is chosen with the TEST_ENV variable (or `--env` through
+ * `npm run test:env`) and defaults to "dev".
+ */
+
+/**
+ * Tags used to group tests, e.g. `test('...', { tag: '@submission' }, ...)`.
+ * Profiles exclude the tags that must never run against them.
+ * `@desktop-only` / `@mobile-only` limit a test to desktop or mobile browser projects.
+ */
+export const TEST_TAGS = [
+  '@submission',
+  '@a11y',
+  '@visual',
+  '@performance',
+  '@security',
+  '@desktop-only',
+  '@mobile-only',
+] as const;
+export type TestTag = (typeof TEST_TAGS)[number];
+
+export const ENVIRONMENT_NAMES = [
+  'local',
+  'dev',
+  'staging',
+  'prod-readonly',
+] as const;
+export type EnvironmentName = (typeof ENVIRONMENT_NAMES)[number];
+
+export interface EnvironmentTimeouts {
+  /** Timeout for a single test */
+  test: number;
+  /** Timeout for `expect` assertions */
+  expect: number;
+  /** Timeout for actions such as click and fill */
+  action: number;
+  /** Timeout for page navigations */
+  navigation: number;
+  /** Timeout for component transitions: slide changes, expand/collapse, lightbox */
+  transition: number;
+}
+
+/**
+ * Performance budgets checked by utils/performance.ts. Times are in milliseconds from
+ * the start of navigation; layout shift values are unitless CLS scores.
+ */
+export interface PerformanceBudgets {
+  /** Time to first byte of the document */
+  ttfbMs: number;
+  domContentLoadedMs: number;
+  /** End of the load event */
+  loadMs: number;
+  /** Largest Contentful Paint */
+  lcpMs: number;
+  /** Cumulative Layout Shift of the page load */
+  cls: number;
+  /** Bytes transferred for the document and all resources */
+  transferBytes: number;
+  /** Load time of a single slider or review image */
+  imageLoadMs: number;
+  /** Layout shift not caused by input during a slide change or review expansion */
+  transitionCls: number;
+}
+
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  description: string;
+  baseURL: string;
+  /** Environment variable that supplies baseURL for hosts not kept in the repo */
+  baseURLVariable?: string;
+  /** Serve the recorded snapshot through the replay server instead of a live host */
+  replay: boolean;
+  timeouts: EnvironmentTimeouts;
+  performance: PerformanceBudgets;
+  retries: number;
+  /** Tests carrying any of these tags are not run against this profile */
+  excludedTags: TestTag[];
+}
+
+/**
+ * Thrown when the selected profile is unknown or incomplete.
+ */
+export class EnvironmentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentConfigError';
+  }
+}
+
+export const DEFAULT_ENVIRONMENT: EnvironmentName = 'dev';
+
+const defaultTimeouts: EnvironmentTimeouts = {
+  test: 30000,
+  expect: 5000,
+  action: 10000,
+  navigation: 30000,
+  transition: 3000,
+};
+
+const defaultPerformanceBudgets: PerformanceBudgets = {
+  ttfbMs: 800,
+  domContentLoadedMs: 3000,
+  loadMs: 6000,
+  lcpMs: 4000,
+  cls: 0.1,
+  transferBytes: 5_000_000,
+  imageLoadMs: 3000,
+  transitionCls: 0.1,
+};
+
+/**
+ * Builds the raw profile definitions.
+ * Hosts that differ per team (staging, production) are read from the environment.
+ */
+function defineProfiles(
+  env: NodeJS.ProcessEnv,
+): Record<EnvironmentName, EnvironmentProfile> {
+  return {
+    local: {
+      name: 'local',
+      description: 'Recorded landing page served by the local replay server',
+      baseURL: `http://localhost:${env.REPLAY_PORT ?? DEFAULT_REPLAY_PORT}`,
+      replay: true,
+      timeouts: {
+        test: 20000,
+        expect: 5000,
+        action: 5000,
+        navigation: 10000,
+        transition: 2000,
+      },
+      // Served from disk: network times only measure the browser
+      performance: {
+        ...defaultPerformanceBudgets,
+        ttfbMs: 200,
+        domContentLoadedMs: 1500,
+        loadMs: 3000,
+        lcpMs: 2500,
+        imageLoadMs: 1000,
+      },
+      retries: 0,
+      excludedTags: [],
+    },
+    dev: {
+      name: 'dev',
+      description: 'Shared QA environment',
+      baseURL: 'https://test-qa.capslock.global',
+      replay: false,
+      timeouts: defaultTimeouts,
+      performance: defaultPerformanceBudgets,
+      retries: 2,
+      excludedTags: [],
+    },
+    staging: {
+      name: 'staging',
+      description: 'Pre-release environment',
+      baseURL: env.STAGING_BASE_URL ?? '',
+      baseURLVariable: 'STAGING_BASE_URL',
+      replay: false,
+      timeouts: defaultTimeouts,
+      performance: defaultPerformanceBudgets,
+      retries: 2,
+      excludedTags: [],
+    },
+    'prod-readonly': {
+      name: 'prod-readonly',
+      description: 'Production, read-only: no lead submissions',
+      baseURL: env.PROD_BASE_URL ?? '',
+      baseURLVariable: 'PROD_BASE_URL',
+      replay: false,
+      timeouts: { ...defaultTimeouts, test: 45000 },
+      // Production is behind the CDN: hold it to the tighter load budgets
+      performance: {
+        ...defaultPerformanceBudgets,
+        domContentLoadedMs: 2500,
+        loadMs: 5000,
+        lcpMs: 2500,
+      },
+      retries: 1,
+      excludedTags: ['@submission'],
+    },
+  };
+}
+
+function isEnvironmentName(name: string): name is EnvironmentName {
+  return (ENVIRONMENT_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Checks a profile and returns every problem found, so they can be reported at once.
+ */
+export function validateProfile(profile: EnvironmentProfile): string[] {
+  const problems: string[] = [];
+
+  if (!profile.baseURL) {
+    problems.push(
+      `baseURL is empty, set ${profile.baseURLVariable ?? 'BASE_URL'}`,
+    );
+  } else {
+    try {
+      const { protocol } = new URL(profile.baseURL);
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        problems.push(`baseURL "${profile.baseURL}" must use http or https`);
+      } else if (profile.replay && protocol !== 'http:') {
+        problems.push(
+          `baseURL "${profile.baseURL}" must use http: the replay server does not serve https`,
+        );
+      }
+    } catch {
+      problems.push(`baseURL "${profile.baseURL}" is not a valid URL`);
+    }
+  }
+
+  Object.entries(profile.timeouts).forEach(([key, value]) => {
+    if (!Number.isInteger(value) || value <= 0) {
+      problems.push(`timeouts.${key} must be a positive integer, got ${value}`);
+    }
+  });
+
+  Object.entries(profile.performance).forEach(([key, value]) => {
+    if (!Number.isFinite(value) || value < 0) {
+      problems.push(
+        `performance.${key} must be a non-negative number, got ${value}`,
+      );
+    }
+  });
+
+  if (!Number.isInteger(profile.retries) || profile.retries < 0) {
+    problems.push(
+      `retries must be a non-negative integer, got ${profile.retries}`,
+    );
+  }
+
+  profile.excludedTags.forEach((tag) => {
+    if (!(TEST_TAGS as readonly string[]).includes(tag)) {
+      problems.push(
+        `excludedTags contains unknown tag "${tag}" (known: ${TEST_TAGS.join(', ')})`,
+      );
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Resolves and validates the profile selected by TEST_ENV.
+ * Throws EnvironmentConfigError with every problem listed.
+ */
+export function loadEnvironment(
+  env: NodeJS.ProcessEnv = process.env,
+): EnvironmentProfile {
+  const name = env.TEST_ENV ?? DEFAULT_ENVIRONMENT;
+  if (!isEnvironmentName(name)) {
+    throw new EnvironmentConfigError(
+      `Unknown environment "${name}" in TEST_ENV. ` +
+        `Available profiles: ${ENVIRONMENT_NAMES.join(', ')}.`,
+    );
+  }
+
+  const profile = { ...defineProfiles(env)[name] };
+  if (env.BASE_URL) {
+    profile.baseURL = env.BASE_URL;
+  }
+
+  const problems = validateProfile(profile);
+  if (problems.length > 0) {
+    throw new EnvironmentConfigError(
+      `Invalid environment profile "${name}" (${profile.description}):\n` +
+        problems.map((problem) => `  - ${problem}`).join('\n'),
+    );
+  }
+  return profile;
+}
+
+let activeEnvironment: EnvironmentProfile | undefined;
+
+/**
+ * The profile for the current run, loaded once per process.
+ */
+export function getActiveEnvironment(): EnvironmentProfile {
+  activeEnvironment ??= loadEnvironment();
+  return activeEnvironment;
+}
+
+/**
+ * Port the replay server of a profile listens on: the baseURL's port, or the protocol's
+ * default port when the URL (e.g. a BASE_URL override) does not name one.
+ */
+export function replayPort(profile: EnvironmentProfile): string {
+  const { port, protocol } = new URL(profile.baseURL);
+  return port || (protocol === 'https:' ? '443' : '80');
+}
@@ -0,0 +1,188 @@
+import { test as base, expect } from '@playwright/test';
+
+import { getActiveEnvironment } from '../config/environments';
+
+import { HomePage } from '../pages/HomePage';
+import { ThankYouPage } from '../pages/ThankYouPage';
+import { FormComponent } from '../pages/components/FormComponent';
+import { LocationComponent } from '../pages/components/LocationComponent';
+import { ReviewsComponent } from '../pages/components/ReviewsComponent';
+import { SliderComponent } from '../pages/components/SliderComponent';
+import { routeForeignOriginsToReplay } from '../replay/routing';
+import { assetGuardFor } from '../utils/assetGuard';
+import { openDefectsFor } from '../utils/defects';
+import { GeoIpStub, type GeoIpStubResponse } from '../utils/geoIp';
+import { type InteractionMode } from '../utils/interaction';
+
+/**
+ * Page objects injected into tests.
+ * Every fixture shares one HomePage, which has already navigated to the landing page.
+ */
+export interface PageObjectFixtures {
+  homePage: HomePage;
+  form: FormComponent;
+  slider: SliderComponent;
+  reviews: ReviewsComponent;
+  location: LocationComponent;
+  /** Thank-you page on the same browser page, for post-submission checks */
+  thankYouPage: ThankYouPage;
+}
+
+/**
+ * Per-test options, e.g. `test.use({ formIndex: 1 })` inside a describe block.
+ */
+export interface PageObjectOptions {
+  /** Which quiz form instance `form` and `homePage.form` point at (0-based) */
+  formIndex: number;
+  /** Whether components drive the page with the mouse or the keyboard only */
+  interactionMode: InteractionMode;
+  /**
+   * Installs Playwright's fake clock before the page loads. Real time keeps flowing until
+   * the clock is paused (`SliderComponent.observeSlideChanges` pauses it); after that only
+   * `page.clock.runFor` moves time.
+   */
+  fakeClock: boolean;
+  /**
+   * Answers the page's geo-IP lookups before it loads (utils/geoIp.ts).
+   * Undefined lets them reach the real service.
+   */
+  geoIp: GeoIpStubResponse | undefined;
+}
+
+/**
+ * Fixtures that run for every test without being requested.
+ */
+export interface AutoFixtures {
+  /** Marks tests linked to an open defect in data/defects.json as expected to fail */
+  knownDefects: void;
+  /** Fails the test on console errors, page errors, failed requests and broken images */
+  assetGuard: void;
+  /** In replay profiles, serves requests to other origins from the recorded snapshot */
+  replayRouting: void;
+}
+
+/**
+ * Container selector overrides, set per project in playwright.config.ts
+ * (e.g. `use: { formSelector: '#hero .formWrap_quiz' }`).
+ * Undefined keeps each component's default selector.
+ */
+export interface SelectorOptions {
+  sliderSelector: string | undefined;
+  formSelector: string | undefined;
+  reviewsSelector: string | undefined;
+  locationSelector: string | undefined;
+}
+
+/**
+ * Typed `test` with ready-to-use page objects.
+ *
+ * @example
+ * import { test, expect } from '../fixtures';
+ *
+ * test('should open the next slide', async ({ slider }) => {
+ *   await slider.clickNext();
+ *   await slider.expectActiveSlideIndex(1);
+ * });
+ */
+export const test = base.extend<
+  PageObjectFixtures & PageObjectOptions & AutoFixtures,
+  SelectorOptions
+>({
+  sliderSelector: [undefined, { scope: 'worker', option: true }],
+  formSelector: [undefined, { scope: 'worker', option: true }],
+  reviewsSelector: [undefined, { scope: 'worker', option: true }],
+  locationSelector: [undefined, { scope: 'worker', option: true }],
+  formIndex: [0, { option: true }],
+  interactionMode: ['mouse', { option: true }],
+  fakeClock: [false, { option: true }],
+  geoIp: [undefined, { option: true }],
+
+  knownDefects: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      const openDefects = openDefectsFor(testInfo.annotations);
+      if (openDefects.length > 0) {
+        testInfo.fail(
+          true,
+          `Known open defect: ${openDefects
+            .map((defect) => `${defect.id} ${defect.title}`)
+            .join('; ')}`,
+        );
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  replayRouting: [
+    async ({ context }, use) => {
+      const environment = getActiveEnvironment();
+      if (environment.replay) {
+        await routeForeignOriginsToReplay(context, environment.baseURL);
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  assetGuard: [
+    async ({ page }, use, testInfo) => {
+      const guard = assetGuardFor(page);
+      await use();
+      await guard.expectNoUnexpectedIssues(testInfo);
+    },
+    { auto: true },
+  ],
+
+  homePage: async (
+    {
+      page,
+      sliderSelector,
+      formSelector,
+      reviewsSelector,
+      locationSelector,
+      formIndex,
+      interactionMode,
+      fakeClock,
+      geoIp,
+    },
+    use,
+  ) => {
+    if (fakeClock) {
+      await page.clock.install();
+    }
+    if (geoIp) {
+      await new GeoIpStub(page, geoIp).start();
+    }
+    const homePage = new HomePage(
+      page,
+      {
+        slider: sliderSelector,
+        form: formSelector,
+        reviews: reviewsSelector,
+        location: locationSelector,
+      },
+      formIndex,
+      interactionMode,
+    );
+    await homePage.goto('/');
+    await use(homePage);
+  },
+  form: async ({ homePage }, use) => {
+    await use(homePage.form);
+  },
+  slider: async ({ homePage }, use) => {
+    await use(homePage.slider);
+  },
+  reviews: async ({ homePage }, use) => {
+    await use(homePage.reviews);
+  },
+  location: async ({ homePage }, use) => {
+    await use(homePage.location);
+  },
+  thankYouPage: async ({ page }, use) => {
+    await use(new ThankYouPage(page));
+  },
+});
+
+export { expect };
@@ -1,10 +1,34 @@
 import { Page } from '@playwright/test';
 
+import {
+  expectNoA11yViolations,
+  type A11yReport,
+} from '../utils/accessibility';
+import { assetGuardFor } from '../utils/assetGuard';
+import { PerformanceMonitor } from '../utils/performance';
+
 export class BasePage {
-  constructor(protected page: Page) {}
+  /** Timing metrics and performance budgets of the page */
+  readonly performance: PerformanceMonitor;
+
+  constructor(protected page: Page) {
+    this.performance = new PerformanceMonitor(page);
+  }
 
+  /**
+   * Navigates to a path, which Playwright resolves against the `baseURL` of the active
+   * environment profile, then checks the new page for broken images (utils/assetGuard.ts).
+   */
   async goto(url: string) {
+    const guard = assetGuardFor(this.page);
     await this.page.goto(url);
+    await guard.checkAfterNavigation();
   }
-}
 
+  /**
+   * Audits the whole page against the local accessibility rules.
+   */
+  async expectAccessible(): Promise<A11yReport> {
+    return await expectNoA11yViolations(this.page, { name: 'page' });
+  }
+}
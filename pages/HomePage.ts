@@ -1,11 +1,24 @@
 import { type Page } from '@playwright/test';
 
+import { type InteractionMode } from '../utils/interaction';
+import { type PerformanceReport } from '../utils/performance';
 import { BasePage } from './BasePage';
 import { FormComponent } from './components/FormComponent';
 import { LocationComponent } from './components/LocationComponent';
 import { ReviewsComponent } from './components/ReviewsComponent';
 import { SliderComponent } from './components/SliderComponent';
 
+/**
+ * Optional container selector overrides for the home page components.
+ * Omitted entries fall back to each component's default selector.
+ */
+export interface HomePageSelectors {
+  slider?: string;
+  form?: string;
+  location?: string;
+  reviews?: string;
+}
+
 /**
  * Home Page Object that uses reusable components.
  * Demonstrates composition pattern for component-based POM.
@@ -17,13 +30,44 @@ export class HomePage extends BasePage {
   readonly location: LocationComponent;
   readonly reviews: ReviewsComponent;
 
-  constructor(page: Page) {
+  /**
+   * @param page The Playwright page instance
+   * @param selectors Optional container selector overrides
+   * @param formIndex Which quiz form instance to use (the page renders more than one)
+   * @param interactionMode Whether components use the mouse or the keyboard only
+   */
+  constructor(
+    page: Page,
+    selectors: HomePageSelectors = {},
+    formIndex: number = 0,
+    interactionMode: InteractionMode = 'mouse',
+  ) {
     super(page);
     // Initialize components for this page
-    this.slider = new SliderComponent(page);
-    this.form = new FormComponent(page);
-    this.location = new LocationComponent(page);
-    this.reviews = new ReviewsComponent(page);
+    this.slider = new SliderComponent(page, selectors.slider, interactionMode);
+    this.form = new FormComponent(
+      page,
+      selectors.form,
+      formIndex,
+      interactionMode,
+    );
+    this.location = new LocationComponent(page, selectors.location);
+    this.reviews = new ReviewsComponent(
+      page,
+      selectors.reviews,
+      interactionMode,
+    );
+  }
+
+  /**
+   * Collects the page's performance metrics with the load times of the slider
+   * and review images.
+   */
+  async collectPerformance(): Promise<PerformanceReport> {
+    return await this.performance.collect({
+      slider: this.slider.slideImagesLocator,
+      reviews: this.reviews.reviewImagesLocator,
+    });
   }
 
   // Other page-specific elements and methods would go here
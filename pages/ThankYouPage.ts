@@ -0,0 +1,101 @@
+import { expect, type Locator, type Request } from '@playwright/test';
+
+import { loadDataset } from '../utils/dataLoader';
+import { isLeadRequest } from '../utils/submissionInterceptor';
+import { BasePage } from './BasePage';
+
+/**
+ * Thank-you page shown after a successful submission.
+ * REQUIREMENT: Successful submission redirects to the "Thank you" page
+ * (DEFECT-004: the confirmation currently appears inline in the form instead).
+ */
+export class ThankYouPage extends BasePage {
+  // URL pattern, confirmation copy and lead ID format from data/thankYou.json
+  private readonly dataset = loadDataset('thankYou');
+
+  private get content(): Locator {
+    return this.page.locator('body');
+  }
+
+  /**
+   * URL pattern of the thank-you page.
+   */
+  get urlPattern(): RegExp {
+    return new RegExp(this.dataset.urlPattern, 'i');
+  }
+
+  /**
+   * Whether the browser is on the thank-you page.
+   */
+  isOpen(): boolean {
+    return this.urlPattern.test(this.page.url());
+  }
+
+  /**
+   * Gets the lead ID shown on the page.
+   * @returns The ID, or null when the page shows none
+   */
+  async getLeadId(): Promise<string | null> {
+    const text = await this.content.innerText();
+    const match = text.match(new RegExp(this.dataset.leadIdPattern, 'i'));
+    return match?.[1] ?? null;
+  }
+
+  /**
+   * Asserts that the browser was redirected to the thank-you page and it rendered.
+   */
+  async expectLoaded(): Promise<void> {
+    await expect(this.page).toHaveURL(this.urlPattern);
+    await expect(this.content).toBeVisible();
+  }
+
+  /**
+   * Asserts that the page shows every phrase of the confirmation copy.
+   */
+  async expectConfirmationCopy(): Promise<void> {
+    for (const phrase of this.dataset.confirmationCopy) {
+      await expect(this.content).toContainText(
+        new RegExp(phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'),
+      );
+    }
+  }
+
+  /**
+   * Asserts that the page shows a lead ID, and that it is the expected one when given.
+   */
+  async expectLeadId(expected?: string): Promise<string> {
+    const leadId = await this.getLeadId();
+    expect(
+      leadId,
+      `No lead ID matching /${this.dataset.leadIdPattern}/i on the thank-you page`,
+    ).not.toBeNull();
+    if (expected !== undefined) {
+      expect(leadId).toBe(expected);
+    }
+    return leadId as string;
+  }
+
+  /**
+   * Goes back from the thank-you page and asserts that no submission request is
+   * sent again and that the thank-you page is left.
+   */
+  async expectBackNavigationDoesNotResubmit(): Promise<void> {
+    await this.expectLoaded();
+    const resubmissions: string[] = [];
+    const onRequest = (request: Request) => {
+      if (isLeadRequest(request, this.page.url())) {
+        resubmissions.push(`${request.method()} ${request.url()}`);
+      }
+    };
+
+    this.page.on('request', onRequest);
+    try {
+      await this.page.goBack({ waitUntil: 'load' });
+      await expect(this.page).not.toHaveURL(this.urlPattern);
+    } finally {
+      this.page.off('request', onRequest);
+    }
+
+    expect(resubmissions, 'Requests sent again after going back').toEqual([]);
+  }
+}
@@ -1,5 +1,19 @@
 import { expect, type Locator, type Page } from '@playwright/test';
 
+import {
+  expectNoA11yViolations,
+  type A11yReport,
+} from '../../utils/accessibility';
+import { loadDataset } from '../../utils/dataLoader';
+import { type ErrorMessages } from '../../utils/dataSchemas';
+import { Interaction, type InteractionMode } from '../../utils/interaction';
+import {
+  SubmissionInterceptor,
+  type CapturedSubmission,
+  type SubmissionInterceptorOptions,
+} from '../../utils/submissionInterceptor';
+import { expectVisualMatch } from '../../utils/visual';
+
 /**
  * Form field names based on requirements.
  * According to requirements: zip, email, and phone fields are required.
@@ -16,6 +30,100 @@ export interface FormData {
   phone?: string;
 }
 
+/**
+ * Options for fillForm().
+ */
+export interface FillFormOptions {
+  /**
+   * Runs after each field is filled (and its step advanced), e.g. to scan the page
+   * between steps.
+   */
+  afterStep?: (fieldName: FormFieldName) => Promise<void>;
+}
+
+/**
+ * Which validation message a field shows: the one for a blank value or the one for
+ * a value in the wrong format (data/errorMessages.yaml).
+ */
+export type FieldErrorKind = 'empty' | 'invalid';
+
+/**
+ * A validation message visible in the form.
+ */
+export interface FieldError {
+  /** Field the message belongs to: the input next to it, else the field its copy names */
+  field: FormFieldName | null;
+  /** Empty or invalid, from the copy; null for copy not in data/errorMessages.yaml */
+  kind: FieldErrorKind | null;
+  message: string;
+}
+
+/**
+ * Input selectors per field, relative to the form container.
+ */
+const FIELD_SELECTORS: Record<FormFieldName, string> = {
+  zip: 'input[data-zip-code-input]',
+  email: 'input[name="email"][placeholder="Email Address"]',
+  phone: 'input[data-phone-input], input[name="phone"]',
+};
+
+/**
+ * Validation message blocks, relative to the form container.
+ */
+const ERROR_BLOCK_SELECTOR = '[data-error-block]';
+
+/**
+ * Quiz steps the form can show.
+ * 'question' covers intermediate multiple-choice steps without a required field.
+ */
+export type QuizStepName =
+  | 'zip'
+  | 'question'
+  | 'email'
+  | 'phone'
+  | 'sorry'
+  | 'thankYou';
+
+/**
+ * The quiz step currently visible to the user.
+ */
+export interface QuizStep {
+  name: QuizStepName;
+  /** Step number taken from the `step-N` class, null for sorry / thank you steps */
+  number: number | null;
+}
+
+/**
+ * Progress indicator state parsed from its "N of M" text.
+ */
+export interface QuizProgress {
+  text: string;
+  current: number | null;
+  total: number | null;
+}
+
+/**
+ * What the user sees after submitting:
+ * - redirected: the browser moved to the thank-you page
+ * - inline-success: the form shows its thank-you step in place (DEFECT-004)
+ * - none: no success state at all
+ */
+export type SubmissionOutcome = 'redirected' | 'inline-success' | 'none';
+
+/**
+ * Where a form instance sits on the page.
+ */
+export interface FormInstanceInfo {
+  /** 0-based index among all instances matching the container selector */
+  index: number;
+  /** CSS path from <body>, e.g. `body > main > section#hero > div.formWrap_quiz` */
+  domPath: string;
+  /** Id of the closest ancestor section, if any */
+  sectionId: string | null;
+  /** Distance from the top of the document in pixels */
+  top: number;
+}
+
 /**
  * Reusable Form Component.
  * Can be used on any page that contains a form with the specified structure.
@@ -25,29 +133,157 @@ export class FormComponent {
   private readonly page: Page;
   private readonly formContainer: Locator;
 
+  static readonly DEFAULT_SELECTOR = '.formWrap_quiz';
+
+  private submissionInterceptor?: SubmissionInterceptor;
+  private readonly interaction: Interaction;
+
   /**
    * Creates a new FormComponent instance.
    * @param page The Playwright page instance
    * @param containerSelector Optional container selector. If not provided, uses default form selector.
+   * @param index Which instance to use when the selector matches several forms (0-based)
+   * @param interactionMode Fill and submit with the mouse or with the keyboard only
    */
-  constructor(page: Page, containerSelector: string = '.formWrap_quiz') {
+  constructor(
+    page: Page,
+    containerSelector: string = FormComponent.DEFAULT_SELECTOR,
+    index: number = 0,
+    interactionMode: InteractionMode = 'mouse',
+  ) {
     this.page = page;
-    this.formContainer = page.locator(containerSelector).first();
+    this.formContainer = page.locator(containerSelector).nth(index);
+    this.interaction = new Interaction(page, interactionMode);
+  }
+
+  // ============================================
+  // Form Instances - Every form on the page
+  // ============================================
+
+  /**
+   * Describes every form instance on the page: index, DOM path and section.
+   */
+  static async describeInstances(
+    page: Page,
+    containerSelector: string = FormComponent.DEFAULT_SELECTOR,
+  ): Promise<FormInstanceInfo[]> {
+    return await page.locator(containerSelector).evaluateAll((forms) => {
+      const describeElement = (element: Element): string => {
+        const id = element.id ? `#${element.id}` : '';
+        const className = element.classList[0]
+          ? `.${element.classList[0]}`
+          : '';
+        return `${element.tagName.toLowerCase()}${id}${className}`;
+      };
+      return forms.map((form, index) => {
+        const path: string[] = [];
+        for (
+          let element: Element | null = form;
+          element && element !== document.body;
+          element = element.parentElement
+        ) {
+          path.unshift(describeElement(element));
+        }
+        return {
+          index,
+          domPath: ['body', ...path].join(' > '),
+          sectionId: form.closest('section[id]')?.id ?? null,
+          top: Math.round(form.getBoundingClientRect().top + window.scrollY),
+        };
+      });
+    });
+  }
+
+  /**
+   * Builds a FormComponent for every form instance on the page.
+   * @param interactionMode Fill and submit with the mouse or with the keyboard only
+   */
+  static async all(
+    page: Page,
+    containerSelector: string = FormComponent.DEFAULT_SELECTOR,
+    interactionMode: InteractionMode = 'mouse',
+  ): Promise<FormComponent[]> {
+    const count = await page.locator(containerSelector).count();
+    return Array.from(
+      { length: count },
+      (_, index) =>
+        new FormComponent(page, containerSelector, index, interactionMode),
+    );
+  }
+
+  /**
+   * Builds a FormComponent for the form instance closest to an anchor element,
+   * e.g. the form next to the reviews section.
+   * @param anchorSelector Selector of the section the form belongs to
+   * @param interactionMode Fill and submit with the mouse or with the keyboard only
+   */
+  static async nearestTo(
+    page: Page,
+    anchorSelector: string,
+    containerSelector: string = FormComponent.DEFAULT_SELECTOR,
+    interactionMode: InteractionMode = 'mouse',
+  ): Promise<FormComponent> {
+    const anchorBox = await page.locator(anchorSelector).first().boundingBox();
+    if (!anchorBox) {
+      throw new Error(`Anchor "${anchorSelector}" is not rendered on the page`);
+    }
+    const anchorTop = anchorBox.y + (await page.evaluate(() => window.scrollY));
+    const instances = await FormComponent.describeInstances(
+      page,
+      containerSelector,
+    );
+    if (instances.length === 0) {
+      throw new Error(`No form instance matches "${containerSelector}"`);
+    }
+    const nearest = instances.reduce((closest, instance) =>
+      Math.abs(instance.top - anchorTop) < Math.abs(closest.top - anchorTop)
+        ? instance
+        : closest,
+    );
+    return new FormComponent(
+      page,
+      containerSelector,
+      nearest.index,
+      interactionMode,
+    );
+  }
+
+  /**
+   * Asserts how many form instances are on the page.
+   * The failure message lists where each instance sits in the DOM.
+   * REQUIREMENT: Only one form is shown (DEFECT-006: the quiz form appears twice).
+   */
+  static async expectInstanceCount(
+    page: Page,
+    expectedCount: number,
+    containerSelector: string = FormComponent.DEFAULT_SELECTOR,
+  ): Promise<FormInstanceInfo[]> {
+    const instances = await FormComponent.describeInstances(
+      page,
+      containerSelector,
+    );
+    const report = instances
+      .map(
+        (instance) =>
+          `  #${instance.index} ${instance.domPath} (section: ${instance.sectionId ?? 'none'}, top: ${instance.top}px)`,
+      )
+      .join('\n');
+    expect(
+      instances.length,
+      `Found ${instances.length} form instance(s) for "${containerSelector}":\n${report}`,
+    ).toBe(expectedCount);
+    return instances;
   }
 
   // Form field locators (flexible selectors to find fields regardless of step)
   private get zipInput(): Locator {
-    return this.formContainer.locator('input[data-zip-code-input]').first();
+    return this.formContainer.locator(FIELD_SELECTORS.zip).first();
   }
   private get emailInput(): Locator {
-    return this.formContainer
-      .locator('input[name="email"][placeholder="Email Address"]')
-      .first();
+    return this.formContainer.locator(FIELD_SELECTORS.email).first();
   }
   private get phoneInput(): Locator {
-    return this.formContainer
-      .locator('input[data-phone-input], input[name="phone"]')
-      .first();
+    return this.formContainer.locator(FIELD_SELECTORS.phone).first();
   }
   private get nextButton(): Locator {
     return this.formContainer.locator('button:has-text("Next")').first();
@@ -60,9 +296,38 @@ export class FormComponent {
     });
   }
 
+  // Next or Submit button of the step currently shown
+  private get advanceButton(): Locator {
+    return this.formContainer
+      .locator('button:visible', { hasText: /next|submit/i })
+      .first();
+  }
+  private get backButton(): Locator {
+    return this.formContainer
+      .locator('button:visible, a:visible', { hasText: /back|previous/i })
+      .first();
+  }
+
+  // Quiz steps are siblings with `step-1` ... `step-N`, `step-sorry`, `step-thankyou` classes
+  private get steps(): Locator {
+    return this.formContainer.locator('[class*="step-"]');
+  }
+
+  // Progress indicator ("1 of 5") and its bar
+  private get progressText(): Locator {
+    return this.formContainer.getByText(/^\s*\d+\s+of\b/).first();
+  }
+  private get progressBar(): Locator {
+    return this.formContainer
+      .locator(
+        '[role="progressbar"], [class*="progress__bar"], [class*="progressBar"]',
+      )
+      .first();
+  }
+
   // Error message locators (flexible to find errors anywhere in form)
   private get errorMessages(): Locator {
-    return this.formContainer.locator('[data-error-block]');
+    return this.formContainer.locator(ERROR_BLOCK_SELECTOR);
   }
 
   /**
@@ -75,26 +340,34 @@ export class FormComponent {
   };
 
   /**
-   * Maps field names to their expected error messages.
+   * Maps field names to their expected error messages (data/errorMessages.yaml).
    * Each field has two possible messages: empty field vs invalid format.
    */
-  private readonly errorMessageMap: {
-    zip: { invalid: string; empty: string };
-    email: { invalid: string; empty: string };
-    phone: { invalid: string; empty: string };
-  } = {
-    zip: {
-      invalid: 'Wrong ZIP code.',
-      empty: 'Enter your ZIP code.',
-    },
-    email: {
-      invalid: 'Wrong email.',
-      empty: 'Enter your email address.',
-    },
-    phone: {
-      invalid: 'Wrong phone number.',
-      empty: 'Enter your phone number.',
-    },
+  private readonly errorMessageMap: ErrorMessages =
+    loadDataset('errorMessages');
+
+  // Thank-you page URL from data/thankYou.json
+  private readonly thankYouUrl = new RegExp(
+    loadDataset('thankYou').urlPattern,
+    'i',
+  );
+
+  // Thank-you step rendered inside the form instead of a redirect. Only the step class
+  // counts: the step is pre-rendered hidden, and "thank you" copy appears elsewhere.
+  private get inlineSuccess(): Locator {
+    return this.formContainer
+      .locator('[class*="step-thankyou"]:visible')
+      .first();
+  }
+
+  /**
+   * Body keys the backend may use for each field, compared case-insensitively
+   * with separators removed (zip_code, zipCode and ZIP all match "zipcode" / "zip").
+   */
+  private readonly payloadKeyMap: Record<FormFieldName, string[]> = {
+    zip: ['zip', 'zipcode', 'postalcode'],
+    email: ['email', 'emailaddress'],
+    phone: ['phone', 'phonenumber', 'tel'],
   };
 
   // ============================================
@@ -105,70 +378,407 @@ export class FormComponent {
    * Fills form fields with provided data.
    * Navigates through form steps as needed to fill all fields.
    */
-  async fillForm(data: FormData): Promise<void> {
+  async fillForm(
+    data: FormData,
+    { afterStep }: FillFormOptions = {},
+  ): Promise<void> {
     // Fill ZIP first (usually step 1)
     if (data.zip !== undefined) {
       await this.zipInput.waitFor({ state: 'visible' });
-      await this.zipInput.fill(data.zip);
+      await this.interaction.fill(this.zipInput, data.zip);
 
-      await this.nextButton.click();
+      await this.interaction.activate(this.nextButton);
+      await afterStep?.('zip');
     }
 
-    // Fill email (might be in step 4 or sorry step)
+    // Fill email (a numbered step, or the sorry step for unserved zip codes)
     if (data.email !== undefined) {
       // Wait for email input to be visible (form transitioned)
       await this.emailInput.waitFor({ state: 'visible' });
-      await this.emailInput.fill(data.email);
+      await this.interaction.fill(this.emailInput, data.email);
 
-      await this.submitButton.click();
+      // Requirement says Next, the page currently shows Submit (DEFECT-002)
+      await this.advance();
+      await afterStep?.('email');
     }
 
     // Fill phone (usually last step)
     if (data.phone !== undefined) {
       // Wait for phone input to be visible
       await this.phoneInput.waitFor({ state: 'visible' });
-      await this.phoneInput.fill(data.phone);
+      await this.interaction.fill(this.phoneInput, data.phone);
+      await afterStep?.('phone');
     }
   }
 
   /**
-   * Submits the form by clicking the submit button.
+   * Submits the form by clicking the submit button (Enter on it in keyboard mode).
+   * @returns What the user sees once the submission settles
    */
-  async submit(): Promise<void> {
-    await this.submitButton.click();
-    await this.page.waitForURL(/thank/i, { timeout: 10000 });
+  async submit(): Promise<SubmissionOutcome> {
+    await this.interaction.activate(this.submitButton);
+    return await this.waitForSubmissionOutcome();
   }
 
   /**
    * Fills the form and submits it in one action.
    */
-  async fillAndSubmit(data: FormData): Promise<void> {
+  async fillAndSubmit(data: FormData): Promise<SubmissionOutcome> {
     await this.fillForm(data);
-    await this.submit();
+    return await this.submit();
+  }
+
+  // ============================================
+  // Submission Outcome - Redirect, Inline Success or None
+  // ============================================
+
+  /**
+   * Reads the success state shown right now.
+   */
+  async getSubmissionOutcome(): Promise<SubmissionOutcome> {
+    if (this.thankYouUrl.test(this.page.url())) return 'redirected';
+    if (await this.inlineSuccess.isVisible()) return 'inline-success';
+    return 'none';
+  }
+
+  /**
+   * Waits for a redirect to the thank-you page or for the inline thank-you step,
+   * whichever comes first.
+   * @param timeout How long to wait before reporting 'none'
+   */
+  async waitForSubmissionOutcome(
+    timeout: number = 10000,
+  ): Promise<SubmissionOutcome> {
+    const none = (): SubmissionOutcome => 'none';
+    const outcome = await Promise.race([
+      this.page
+        .waitForURL(this.thankYouUrl, { timeout })
+        .then((): SubmissionOutcome => 'redirected', none),
+      this.inlineSuccess
+        .waitFor({ state: 'visible', timeout })
+        .then((): SubmissionOutcome => 'inline-success', none),
+    ]);
+    // One wait timing out first does not mean the other one failed
+    return outcome === 'none' ? await this.getSubmissionOutcome() : outcome;
+  }
+
+  /**
+   * Asserts what the user sees after submitting.
+   */
+  async expectSubmissionOutcome(expected: SubmissionOutcome): Promise<void> {
+    expect(
+      await this.waitForSubmissionOutcome(),
+      `Submission outcome on ${this.page.url()}`,
+    ).toBe(expected);
+  }
+
+  // ============================================
+  // Quiz Step Model - Detection, Progress, Navigation
+  // ============================================
+
+  /**
+   * Finds the class (`step-2`, `step-sorry`, ...) of the quiz step currently visible.
+   */
+  private async getVisibleStepClass(): Promise<string | null> {
+    return await this.steps.evaluateAll((elements) => {
+      const stepClassPattern = /^step-\w+$/;
+      const visible = elements.find((element) => {
+        const hasStepClass = Array.from(element.classList).some((name) =>
+          stepClassPattern.test(name),
+        );
+        const style = window.getComputedStyle(element);
+        const box = element.getBoundingClientRect();
+        return (
+          hasStepClass &&
+          style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          box.width > 0 &&
+          box.height > 0
+        );
+      });
+      return (
+        Array.from(visible?.classList ?? []).find((name) =>
+          stepClassPattern.test(name),
+        ) ?? null
+      );
+    });
   }
 
   /**
-   * Asserts that a specific form field shows a validation error.
-   * REQUIREMENT: All fields must be required and show validation errors when invalid.
+   * Detects which quiz step is visible from the inputs and copy it shows.
+   * @returns The step name and its number (null for sorry / thank you steps)
    */
-  async expectValidationError(fieldName: FormFieldName): Promise<void> {
-    // Get error messages for the field (both invalid and empty cases)
-    const fieldErrors = this.errorMessageMap[fieldName];
-    const expectedErrorMessages = [fieldErrors.invalid, fieldErrors.empty];
+  async getCurrentStep(): Promise<QuizStep> {
+    const stepClass = await this.getVisibleStepClass();
+    const numberMatch = stepClass?.match(/^step-(\d+)$/);
+    const number = numberMatch ? parseInt(numberMatch[1], 10) : null;
 
-    // Create a combined case-insensitive regex that matches any of the expected messages
-    const combinedRegex = new RegExp(
-      expectedErrorMessages
-        .map((msg: string) => msg.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
-        .join('|'),
-      'i',
+    if (await this.zipInput.isVisible()) return { name: 'zip', number };
+    if (await this.emailInput.isVisible()) return { name: 'email', number };
+    if (await this.phoneInput.isVisible()) return { name: 'phone', number };
+    if (await this.inlineSuccess.isVisible()) {
+      return { name: 'thankYou', number };
+    }
+    if (await this.formContainer.getByText(/sorry/i).first().isVisible()) {
+      return { name: 'sorry', number };
+    }
+    if (stepClass === null) {
+      throw new Error('No visible quiz step found in the form');
+    }
+    return { name: 'question', number };
+  }
+
+  /**
+   * Waits until the visible step differs from the given one.
+   */
+  private async waitForStepChange(from: QuizStep): Promise<QuizStep> {
+    const describe = (step: QuizStep) => `${step.name}#${step.number}`;
+    await expect
+      .poll(async () => describe(await this.getCurrentStep()), {
+        message: `Form did not leave the "${from.name}" step`,
+      })
+      .not.toBe(describe(from));
+    return await this.getCurrentStep();
+  }
+
+  /**
+   * Activates the Next or Submit button of the current step.
+   */
+  async advance(): Promise<void> {
+    await this.interaction.activate(this.advanceButton);
+  }
+
+  /**
+   * Goes back to the previous quiz step.
+   */
+  async back(): Promise<void> {
+    const current = await this.getCurrentStep();
+    await this.interaction.activate(this.backButton);
+    await this.waitForStepChange(current);
+  }
+
+  /**
+   * Moves forward through the quiz until the target step is visible.
+   * Field steps are filled from `data`, question steps get their first option.
+   * @param target The step to stop on
+   * @param data Values for the field steps passed on the way
+   */
+  async goToStep(
+    target: QuizStepName,
+    data: FormData = {},
+    maxSteps: number = 10,
+  ): Promise<void> {
+    for (let i = 0; i < maxSteps; i++) {
+      const current = await this.getCurrentStep();
+      if (current.name === target) {
+        return;
+      }
+      if (current.name === 'sorry' || current.name === 'thankYou') {
+        throw new Error(
+          `Cannot reach the "${target}" step: the form ended on the "${current.name}" step`,
+        );
+      }
+
+      if (current.name === 'question') {
+        // Only the current step's options are visible; labels are not focusable
+        const optionSelector = this.interaction.isKeyboard
+          ? 'input[type="radio"]:visible, input[type="checkbox"]:visible'
+          : 'label:visible, input[type="radio"]:visible, input[type="checkbox"]:visible';
+        await this.interaction.activate(
+          this.formContainer.locator(optionSelector).first(),
+          'Space',
+        );
+      } else {
+        const value = data[current.name];
+        if (value === undefined) {
+          throw new Error(
+            `goToStep("${target}") needs a ${current.name} value to pass the ${current.name} step`,
+          );
+        }
+        await this.interaction.fill(this.fieldMap[current.name](), value);
+      }
+      await this.advance();
+      await this.waitForStepChange(current);
+    }
+    throw new Error(`Step "${target}" not reached after ${maxSteps} steps`);
+  }
+
+  /**
+   * Reads the "N of M" progress indicator.
+   * Missing numbers are returned as null (e.g. "1 of" gives total null).
+   */
+  async getProgress(): Promise<QuizProgress> {
+    await this.progressText.waitFor({ state: 'visible' });
+    const text = (await this.progressText.textContent())?.trim() || '';
+    const match = text.match(/(\d+)\s+of\s*(\d+)?/);
+    return {
+      text,
+      current: match ? parseInt(match[1], 10) : null,
+      total: match?.[2] ? parseInt(match[2], 10) : null,
+    };
+  }
+
+  /**
+   * Reads how full the progress bar is.
+   * @returns Fill percentage (0-100), from aria-valuenow or the bar width
+   */
+  async getProgressBarFill(): Promise<number> {
+    await this.progressBar.waitFor({ state: 'attached' });
+    return await this.progressBar.evaluate((bar) => {
+      const valueNow = bar.getAttribute('aria-valuenow');
+      if (valueNow !== null) {
+        return parseFloat(valueNow);
+      }
+      const trackWidth = bar.parentElement?.getBoundingClientRect().width ?? 0;
+      const fillWidth = bar.getBoundingClientRect().width;
+      return trackWidth > 0 ? Math.round((fillWidth / trackWidth) * 100) : 0;
+    });
+  }
+
+  /**
+   * Asserts that the given quiz step is visible.
+   */
+  async expectCurrentStep(expected: QuizStepName): Promise<void> {
+    await expect
+      .poll(async () => (await this.getCurrentStep()).name)
+      .toBe(expected);
+  }
+
+  /**
+   * Asserts that the progress indicator shows the total number of steps.
+   * REQUIREMENT: Progress reads "N of M" (DEFECT-001: shows "1 of").
+   */
+  async expectProgressShowsTotal(): Promise<void> {
+    const { text, current, total } = await this.getProgress();
+    const message = `Progress indicator reads "${text}"`;
+    expect(current, message).not.toBeNull();
+    expect(total, message).not.toBeNull();
+    // Narrows the types; the assertions above already failed for null
+    if (current === null || total === null) return;
+    expect(current, message).toBeLessThanOrEqual(total);
+  }
+
+  /**
+   * Asserts the label of the current step's advance button.
+   * REQUIREMENT: Steps before the last one offer "Next" (DEFECT-002: email step shows "Submit").
+   */
+  async expectAdvanceButtonLabel(label: 'Next' | 'Submit'): Promise<void> {
+    await expect(this.advanceButton).toHaveText(new RegExp(label, 'i'));
+  }
+
+  /**
+   * Asserts that the progress bar is full.
+   * REQUIREMENT: Completed form shows a full bar (DEFECT-005: stays at an early step).
+   */
+  async expectProgressBarComplete(): Promise<void> {
+    await expect
+      .poll(() => this.getProgressBarFill(), {
+        message: 'Progress bar should be full once the form is complete',
+      })
+      .toBeGreaterThanOrEqual(100);
+  }
+
+  // ============================================
+  // Submission Interception - Payload and Server Responses
+  // ============================================
+
+  /**
+   * Starts capturing submission requests, answered with a stub (success by default).
+   * Call before the action that submits the form.
+   */
+  async interceptSubmissions(
+    options: SubmissionInterceptorOptions = {},
+  ): Promise<SubmissionInterceptor> {
+    await this.submissionInterceptor?.stop();
+    this.submissionInterceptor = await new SubmissionInterceptor(
+      this.page,
+      options,
+    ).start();
+    return this.submissionInterceptor;
+  }
+
+  private get interceptor(): SubmissionInterceptor {
+    if (!this.submissionInterceptor) {
+      throw new Error(
+        'Submissions are not intercepted. Call form.interceptSubmissions() before submitting.',
+      );
+    }
+    return this.submissionInterceptor;
+  }
+
+  /**
+   * Waits for the latest captured submission.
+   */
+  async getLastSubmission(): Promise<CapturedSubmission> {
+    const submissions = await this.interceptor.waitForSubmissions();
+    return submissions[submissions.length - 1];
+  }
+
+  /**
+   * Finds a field's value in a submission body, whatever key naming the backend uses.
+   */
+  getSubmittedValue(
+    submission: CapturedSubmission,
+    fieldName: FormFieldName,
+  ): string | undefined {
+    const normalize = (key: string) => key.toLowerCase().replace(/[^a-z]/g, '');
+    const keys = this.payloadKeyMap[fieldName];
+    const entry = Object.entries(submission.fields).find(([key]) =>
+      keys.includes(normalize(key)),
     );
+    return entry?.[1];
+  }
+
+  /**
+   * Asserts that the latest submission carried the given field values.
+   */
+  async expectSubmittedPayload(data: FormData): Promise<void> {
+    const submission = await this.getLastSubmission();
+    const fieldNames = Object.keys(data) as FormFieldName[];
+    fieldNames.forEach((fieldName) => {
+      expect(
+        this.getSubmittedValue(submission, fieldName),
+        `Submitted ${fieldName} in ${submission.method} ${submission.url}: ${submission.rawBody}`,
+      ).toBe(data[fieldName]);
+    });
+  }
+
+  /**
+   * Asserts that the form was not submitted at all: no submission is captured for a
+   * short quiet window, so a request sent a moment later is not missed.
+   */
+  async expectNothingSubmitted(): Promise<void> {
+    await this.interceptor.expectNoSubmissions();
+  }
 
-    // Check for div with data-error-block attribute that contains any of the expected messages
-    const errorBlock = this.errorMessages.filter({ hasText: combinedRegex });
+  /**
+   * Asserts that at least one submission was captured and that every one carried the
+   * field value exactly as entered: nothing stripped, truncated or double-encoded, and
+   * no extra fields split off by an unencoded `&` or quote.
+   */
+  expectSubmittedValueIntact(fieldName: FormFieldName, value: string): void {
+    const { submissions } = this.interceptor;
+    expect(
+      submissions.length,
+      `No submission captured for ${fieldName} ${JSON.stringify(value)}`,
+    ).toBeGreaterThan(0);
+    submissions.forEach((submission) => {
+      expect(
+        this.getSubmittedValue(submission, fieldName),
+        `Submitted ${fieldName} in ${submission.method} ${submission.url}: ${submission.rawBody}`,
+      ).toBe(value);
+    });
+  }
 
-    // Assert that the error block is visible
-    await expect(errorBlock).toBeVisible();
+  /**
+   * Asserts that a failed submission is not presented as a success.
+   * The user stays on the form and can try again.
+   */
+  async expectSubmissionNotConfirmed(): Promise<void> {
+    await this.interceptor.waitForSubmissions();
+    await expect(this.page).not.toHaveURL(this.thankYouUrl);
+    await expect(this.inlineSuccess).toBeHidden();
+    await expect(this.advanceButton).toBeEnabled();
   }
 
   /**
@@ -176,8 +786,185 @@ export class FormComponent {
    * REQUIREMENT: After successful submission, user must be redirected to "Thank you" page.
    */
   async expectThankYouRedirect(): Promise<void> {
-    await this.page.waitForURL(/thank/i, { timeout: 10000 });
-    await expect(this.page).toHaveURL(/thank/i);
+    const outcome = await this.waitForSubmissionOutcome();
+    expect(
+      outcome,
+      'Success should redirect to the thank-you page, not show inline (DEFECT-004)',
+    ).toBe('redirected');
+    await expect(this.page).toHaveURL(this.thankYouUrl);
+  }
+
+  // ============================================
+  // Field Errors - Empty vs Invalid
+  // ============================================
+
+  /**
+   * Reads every visible `[data-error-block]` message of this form with the field it
+   * belongs to. The field is the one whose input in this form references the block
+   * (aria-describedby) or sits closest to it in the DOM; when neither applies, the
+   * field named by the copy.
+   */
+  async getVisibleFieldErrors(): Promise<FieldError[]> {
+    const blocks = await this.formContainer.evaluate(
+      (container, { selectors, errorSelector }) =>
+        Array.from(container.querySelectorAll(errorSelector))
+          .filter((element) => {
+            const style = window.getComputedStyle(element);
+            return (
+              style.display !== 'none' &&
+              style.visibility !== 'hidden' &&
+              element.getClientRects().length > 0 &&
+              (element.textContent ?? '').trim() !== ''
+            );
+          })
+          .map((element) => {
+            const fields = Object.entries(selectors);
+            const describedBy = fields.find(
+              ([, selector]) =>
+                element.id !== '' &&
+                Array.from(container.querySelectorAll(selector)).some((input) =>
+                  (input.getAttribute('aria-describedby') ?? '')
+                    .split(/\s+/)
+                    .includes(element.id),
+                ),
+            );
+            // Closest ancestor that holds the input of exactly one field
+            let nearest: string | null = null;
+            for (
+              let ancestor = element.parentElement;
+              ancestor && nearest === null;
+              ancestor = ancestor.parentElement
+            ) {
+              const inside = fields.filter(
+                ([, selector]) => ancestor?.querySelector(selector) !== null,
+              );
+              if (inside.length === 1) nearest = inside[0][0];
+              if (inside.length > 1) break;
+            }
+            return {
+              field: describedBy?.[0] ?? nearest,
+              message: (element.textContent ?? '').replace(/\s+/g, ' ').trim(),
+            };
+          }),
+      { selectors: FIELD_SELECTORS, errorSelector: ERROR_BLOCK_SELECTOR },
+    );
+
+    const fieldNames = Object.keys(this.errorMessageMap) as FormFieldName[];
+    return blocks.map((block) => {
+      const normalized = block.message.toLowerCase();
+      const copy = fieldNames
+        .flatMap((field) =>
+          (['empty', 'invalid'] as const).map((kind) => ({ field, kind })),
+        )
+        .find(
+          ({ field, kind }) =>
+            this.errorMessageMap[field][kind].toLowerCase() === normalized,
+        );
+      return {
+        field: (block.field as FormFieldName | null) ?? copy?.field ?? null,
+        kind: copy?.kind ?? null,
+        message: block.message,
+      };
+    });
+  }
+
+  /**
+   * Asserts that a field shows exactly its `empty` or `invalid` message, and no other.
+   * REQUIREMENT: All fields are required; empty and wrongly formatted values get
+   * their own message.
+   */
+  async expectFieldError(
+    fieldName: FormFieldName,
+    kind: FieldErrorKind,
+  ): Promise<void> {
+    const expected = this.errorMessageMap[fieldName][kind];
+    // Exact copy only: the empty message must not pass for the invalid one
+    await expect
+      .poll(
+        async () =>
+          (await this.getVisibleFieldErrors())
+            .filter((error) => error.field === fieldName)
+            .map((error) => error.message),
+        { message: `Validation messages shown for ${fieldName}` },
+      )
+      .toEqual([expected]);
+  }
+
+  /**
+   * Asserts that the form shows no validation message.
+   */
+  async expectNoFieldErrors(): Promise<void> {
+    await expect
+      .poll(() => this.getVisibleFieldErrors(), {
+        message: 'Validation messages shown in the form',
+      })
+      .toEqual([]);
+  }
+
+  // ============================================
+  // Visual Regression
+  // ============================================
+
+  /**
+   * Moves to a quiz step and compares the form with its `form/step-<step>` baseline.
+   * @param step The step to capture
+   * @param data Values for the field steps passed on the way
+   */
+  async expectVisualMatch(
+    step: QuizStepName,
+    data: FormData = {},
+  ): Promise<void> {
+    await this.goToStep(step, data);
+    await this.expectCurrentStep(step);
+    await expectVisualMatch(
+      this.page,
+      this.formContainer,
+      'form',
+      `step-${step}`,
+    );
+  }
+
+  // ============================================
+  // Keyboard Focus
+  // ============================================
+
+  /**
+   * Asserts that Tab reaches the current step's input before its Next / Submit button.
+   */
+  async expectFocusOrder(): Promise<void> {
+    const current = await this.getCurrentStep();
+    const targets =
+      current.name in this.fieldMap
+        ? [this.fieldMap[current.name as FormFieldName](), this.advanceButton]
+        : [this.advanceButton];
+    await this.interaction.expectFocusOrder(targets);
+  }
+
+  /**
+   * Asserts that the focused element inside the form shows a visible focus indicator.
+   */
+  async expectFocusVisible(): Promise<void> {
+    await this.interaction.expectFocusVisible(
+      this.formContainer.locator(':focus'),
+    );
+  }
+
+  // ============================================
+  // Accessibility
+  // ============================================
+
+  /**
+   * Audits the form against the local accessibility rules.
+   * Inputs are checked on every step, including ones not shown yet, so the zip, email
+   * and phone inputs all need a label. Only shown error blocks must be linked with
+   * aria-describedby; hidden ones are left out.
+   */
+  async expectAccessible(): Promise<A11yReport> {
+    return await expectNoA11yViolations(this.page, {
+      name: 'form',
+      scope: this.formContainer,
+      includeHidden: ['input-label'],
+    });
   }
 
   // Expose readonly access to form elements for tests that need them
@@ -191,6 +978,13 @@ export class FormComponent {
     return this.phoneInput;
   }
 
+  get progressTextLocator(): Locator {
+    return this.progressText;
+  }
+  get progressBarLocator(): Locator {
+    return this.progressBar;
+  }
+
   // Expose error messages locator for tests
   get errorMessagesLocator(): Locator {
     return this.errorMessages;
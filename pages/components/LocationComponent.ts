@@ -1,5 +1,21 @@
 import { expect, type Locator, type Page } from '@playwright/test';
 
+import {
+  expectNoA11yViolations,
+  type A11yReport,
+} from '../../utils/accessibility';
+import { CITY_AND_STATE_PATTERN } from '../../utils/dataSchemas';
+import { expectVisualMatch } from '../../utils/visual';
+
+/**
+ * A detected location split into its parts.
+ */
+export interface DetectedLocation {
+  city: string;
+  /** Two-letter state code */
+  state: string;
+}
+
 /**
  * Reusable Location Component.
  * Can be used on any page that displays location information.
@@ -32,6 +48,22 @@ export class LocationComponent {
     return cityText?.trim() || '';
   }
 
+  /**
+   * Gets the detected location split into city and state.
+   * @returns The location, or null when the page does not show "City, ST"
+   */
+  async getDetectedLocation(): Promise<DetectedLocation | null> {
+    const text = await this.getDetectedCity();
+    if (!CITY_AND_STATE_PATTERN.test(text)) {
+      return null;
+    }
+    const separator = text.lastIndexOf(',');
+    return {
+      city: text.slice(0, separator).trim(),
+      state: text.slice(separator + 1).trim(),
+    };
+  }
+
   /**
    * Asserts that the location element is visible and displays the correct city.
    */
@@ -63,6 +95,61 @@ export class LocationComponent {
     return detectedCity;
   }
 
+  /**
+   * Asserts that the detected location is displayed as "City, ST".
+   */
+  async expectCityAndStateFormat(): Promise<void> {
+    await expect(this.locationCity).toBeVisible();
+    await expect(this.locationCity).toHaveText(CITY_AND_STATE_PATTERN);
+  }
+
+  /**
+   * Asserts that the location element shows a fallback instead of a detected location.
+   * @param fallbackText The exact fallback copy; when omitted, any non-empty text that
+   * is not "City, ST" passes
+   */
+  async expectFallbackDisplayed(fallbackText?: string): Promise<void> {
+    await expect(this.locationCity).toBeVisible();
+    if (fallbackText) {
+      await expect(this.locationCity).toHaveText(fallbackText.trim());
+      return;
+    }
+    await expect(this.locationCity).not.toHaveText(/^\s*$/);
+    await expect(this.locationCity).not.toHaveText(CITY_AND_STATE_PATTERN);
+  }
+
+  // ============================================
+  // Visual Regression
+  // ============================================
+
+  /**
+   * Compares the location section with its `location/default` baseline.
+   * The detected city differs per run and is masked.
+   */
+  async expectVisualMatch(): Promise<void> {
+    await expect(this.locationCity).toBeVisible();
+    await expectVisualMatch(
+      this.page,
+      this.locationContainer,
+      'location',
+      'default',
+    );
+  }
+
+  // ============================================
+  // Accessibility
+  // ============================================
+
+  /**
+   * Audits the location section against the local accessibility rules.
+   */
+  async expectAccessible(): Promise<A11yReport> {
+    return await expectNoA11yViolations(this.page, {
+      name: 'location',
+      scope: this.locationContainer,
+    });
+  }
+
   // Expose locators for tests
   get locationContainerLocator(): Locator {
     return this.locationContainer;
@@ -1,5 +1,50 @@
 import { expect, type Locator, type Page } from '@playwright/test';
 
+import {
+  expectNoA11yViolations,
+  type A11yReport,
+} from '../../utils/accessibility';
+import { loadDataset } from '../../utils/dataLoader';
+import { type LIGHTBOX_CONTROLS } from '../../utils/dataSchemas';
+import { isTouchDevice, swipe } from '../../utils/gestures';
+import { Interaction, type InteractionMode } from '../../utils/interaction';
+import {
+  transitionTimeout,
+  waitForClassTransition,
+  waitForCssTransitions,
+} from '../../utils/transitions';
+import { expectVisualMatch } from '../../utils/visual';
+
+/**
+ * Reviews section states with a screenshot baseline.
+ */
+export type ReviewsVisualState = 'collapsed' | 'expanded' | 'lightbox';
+
+/**
+ * Optional lightGallery plugin controls.
+ */
+export type LightboxControl = (typeof LIGHTBOX_CONTROLS)[number];
+
+/**
+ * One review as shown on the page.
+ */
+export interface Review {
+  /** Position in the reviews section, 0-based */
+  index: number;
+  author: string;
+  /** Star rating, null when the review shows none */
+  rating: number | null;
+  /** Date as displayed, e.g. "March 3, 2024" */
+  date: string;
+  text: string;
+  /** Full-size sources of the attached photos */
+  images: string[];
+  /** Held back in .reviewFull until "Show more" is clicked */
+  extra: boolean;
+  /** Rendered at the time it was read */
+  visible: boolean;
+}
+
 /**
  * Reusable Reviews Component.
  * Handles the reviews section with show more/less functionality.
@@ -10,14 +55,30 @@ export class ReviewsComponent {
   private readonly reviewFull: Locator;
   private readonly showMoreLessButton: Locator;
   private readonly showMoreLessText: Locator;
+  private readonly interaction: Interaction;
+  // Gallery and image the lightbox was opened from
+  private openedFrom = { galleryIndex: 0, imageIndex: 0 };
+  // Button copy and review selectors from data/reviews.json
+  private readonly labels = loadDataset('reviews').labels;
+  private readonly selectors = loadDataset('reviews').selectors;
+
+  private get reviewItems(): Locator {
+    return this.reviewsContainer.locator(this.selectors.review);
+  }
 
-  // Image gallery locators
+  // Image gallery locators (one [data-light-gallery] per review with photos)
+  private get lightGalleries(): Locator {
+    return this.reviewsContainer.locator('[data-light-gallery]');
+  }
   private get lightGalleryContainer(): Locator {
-    return this.reviewsContainer.locator('[data-light-gallery]').first();
+    return this.lightGalleries.first();
   }
   private get lightGalleryImages(): Locator {
     return this.lightGalleryContainer.locator('.review__img');
   }
+  private galleryImages(galleryIndex: number): Locator {
+    return this.lightGalleries.nth(galleryIndex).locator('.review__img');
+  }
   private get lightbox(): Locator {
     return this.page.locator('.lg-outer.lg-visible');
   }
@@ -27,17 +88,42 @@ export class ReviewsComponent {
   private get lightboxCounter(): Locator {
     return this.lightbox.locator('#lg-counter');
   }
+  private get lightboxNextButton(): Locator {
+    return this.lightbox.locator('.lg-next');
+  }
+  private get lightboxPrevButton(): Locator {
+    return this.lightbox.locator('.lg-prev');
+  }
+  private get lightboxInner(): Locator {
+    return this.lightbox.locator('.lg-inner');
+  }
+  private get lightboxCurrentImage(): Locator {
+    return this.lightbox.locator('.lg-current .lg-image').first();
+  }
+  // Plugin controls, only rendered when the lg-zoom / lg-fullscreen plugins are loaded
+  private get lightboxZoomInButton(): Locator {
+    return this.lightbox.locator('#lg-zoom-in');
+  }
+  private get lightboxZoomOutButton(): Locator {
+    return this.lightbox.locator('#lg-zoom-out');
+  }
+  private get lightboxFullscreenButton(): Locator {
+    return this.lightbox.locator('.lg-fullscreen');
+  }
 
   /**
    * Creates a new ReviewsComponent instance.
    * @param page The Playwright page instance
    * @param containerSelector Optional container selector. If not provided, uses default reviews selector.
+   * @param interactionMode Use the mouse or the keyboard only
    */
   constructor(
     page: Page,
     containerSelector: string = '.reviewWrap.reviewWrap_type3',
+    interactionMode: InteractionMode = 'mouse',
   ) {
     this.page = page;
+    this.interaction = new Interaction(page, interactionMode);
     this.reviewsContainer = page.locator(containerSelector).first();
     this.reviewFull = this.reviewsContainer.locator('.reviewFull').first();
     this.showMoreLessButton = this.reviewsContainer
@@ -68,25 +154,17 @@ export class ReviewsComponent {
   }
 
   /**
-   * Clicks the show more/less button.
+   * Clicks the show more/less button (tabs to it and presses Space in keyboard mode).
    */
   async toggleShowMoreLess(): Promise<void> {
     await this.showMoreLessButton.waitFor({ state: 'visible' });
     const isCurrentlyExpanded = await this.isExpanded();
-    await this.showMoreLessButton.click();
+    await this.interaction.activate(this.showMoreLessButton, 'Space');
     // Wait for state to change (collapsed to expanded or vice versa)
-    await this.page.waitForFunction(
-      (expectedExpanded: boolean) => {
-        const container = document.querySelector(
-          '.reviewWrap.reviewWrap_type3',
-        );
-        if (!container) return false;
-        const hasOpenedClass =
-          container.classList.contains('reviewWrap_opened');
-        return hasOpenedClass === expectedExpanded;
-      },
+    await waitForClassTransition(
+      this.reviewsContainer,
+      'reviewWrap_opened',
       !isCurrentlyExpanded,
-      { timeout: 1000 },
     );
   }
 
@@ -96,7 +174,7 @@ export class ReviewsComponent {
    */
   async expectCollapsed(): Promise<void> {
     await expect(this.reviewsContainer).not.toHaveClass(/reviewWrap_opened/);
-    await expect(this.showMoreLessText).toHaveText('Show more');
+    await expect(this.showMoreLessText).toHaveText(this.labels.collapsed);
     // Wait for reviewFull to be hidden (display: none)
     await expect(this.reviewFull).toBeHidden();
   }
@@ -107,7 +185,7 @@ export class ReviewsComponent {
    */
   async expectExpanded(): Promise<void> {
     await expect(this.reviewsContainer).toHaveClass(/reviewWrap_opened/);
-    await expect(this.showMoreLessText).toHaveText('Show less');
+    await expect(this.showMoreLessText).toHaveText(this.labels.expanded);
     // Verify reviewFull is visible
     await expect(this.reviewFull).toBeVisible();
   }
@@ -120,30 +198,181 @@ export class ReviewsComponent {
     await expect(this.showMoreLessButton).toBeVisible();
   }
 
+  // ============================================
+  // Review Content
+  // ============================================
+
+  /**
+   * Reads every review in the section, including the ones held back in .reviewFull.
+   * @returns Reviews in page order
+   */
+  async getReviews(): Promise<Review[]> {
+    await this.reviewsContainer.waitFor({ state: 'visible' });
+    return await this.reviewItems.evaluateAll(
+      (items, fields) =>
+        items.map((item, index) => {
+          const textOf = (selector: string) =>
+            (item.querySelector(selector)?.textContent ?? '')
+              .replace(/\s+/g, ' ')
+              .trim();
+
+          // Rating: a declared value (data-rating, aria-label "4 out of 5"),
+          // else the number of filled stars, else the number of stars
+          const ratingElement = item.querySelector(fields.rating);
+          let rating: number | null = null;
+          if (ratingElement) {
+            const declared = [
+              ratingElement.getAttribute('data-rating'),
+              ratingElement.getAttribute('aria-label'),
+              ratingElement.getAttribute('title'),
+              ratingElement.textContent,
+            ]
+              .map((value) => value?.match(/\d+(?:[.,]\d+)?/)?.[0])
+              .find(Boolean);
+            const filled = ratingElement.querySelectorAll(
+              '[class*="active"], [class*="full"], [class*="filled"]',
+            ).length;
+            rating = declared
+              ? parseFloat(declared.replace(',', '.'))
+              : filled || ratingElement.children.length || null;
+          }
+
+          const images = Array.from(item.querySelectorAll(fields.image))
+            .map(
+              (image) =>
+                image.getAttribute('data-src') ??
+                image.getAttribute('href') ??
+                image.getAttribute('src') ??
+                image.querySelector('img')?.getAttribute('src') ??
+                '',
+            )
+            .filter(Boolean);
+
+          const style = window.getComputedStyle(item);
+          return {
+            index,
+            author: textOf(fields.author),
+            rating,
+            date: textOf(fields.date),
+            text: textOf(fields.text),
+            images,
+            extra: item.closest('.reviewFull') !== null,
+            visible:
+              style.display !== 'none' &&
+              style.visibility !== 'hidden' &&
+              item.getClientRects().length > 0,
+          };
+        }),
+      { ...this.selectors, image: '.review__img' },
+    );
+  }
+
+  /**
+   * Asserts that the section lists at least `minCount` reviews.
+   */
+  async expectReviewCount(minCount: number): Promise<Review[]> {
+    const reviews = await this.getReviews();
+    expect(
+      reviews.length,
+      `Expected at least ${minCount} reviews, the page lists ${reviews.length}`,
+    ).toBeGreaterThanOrEqual(minCount);
+    return reviews;
+  }
+
+  /**
+   * Asserts that every review has a rating between `min` and `max`.
+   */
+  async expectRatingsInRange(min: number, max: number): Promise<void> {
+    const outOfRange = (await this.getReviews())
+      .filter(
+        (review) =>
+          review.rating === null || review.rating < min || review.rating > max,
+      )
+      .map((review) => `#${review.index} ${review.author}: ${review.rating}`);
+    expect(
+      outOfRange,
+      `Reviews without a rating between ${min} and ${max}`,
+    ).toEqual([]);
+  }
+
+  /**
+   * Asserts that every review has an author and text.
+   */
+  async expectNoEmptyReviews(): Promise<void> {
+    const empty = (await this.getReviews())
+      .filter((review) => !review.author || !review.text)
+      .map((review) => `#${review.index} ${JSON.stringify(review)}`);
+    expect(empty, 'Reviews with an empty author or text').toEqual([]);
+  }
+
+  /**
+   * Asserts that .reviewFull holds back at least `minExtra` reviews while collapsed
+   * and that all of them are shown once the section is expanded.
+   * Leaves the section expanded.
+   */
+  async expectExtraReviewsShownWhenExpanded(minExtra: number): Promise<void> {
+    await this.expectCollapsed();
+    const collapsed = await this.getReviews();
+    const extra = collapsed.filter((review) => review.extra);
+    expect(
+      extra.length,
+      `Expected at least ${minExtra} reviews in .reviewFull`,
+    ).toBeGreaterThanOrEqual(minExtra);
+    expect(
+      extra.filter((review) => review.visible).map((review) => review.index),
+      'Extra reviews visible before "Show more"',
+    ).toEqual([]);
+
+    await this.toggleShowMoreLess();
+    await this.expectExpanded();
+    const hidden = (await this.getReviews())
+      .filter((review) => !review.visible)
+      .map((review) => `#${review.index} ${review.author}`);
+    expect(hidden, 'Reviews still hidden after "Show more"').toEqual([]);
+  }
+
   // ============================================
   // Image Gallery Methods
   // ============================================
 
   /**
-   * Gets the count of review images in the first gallery.
-   * @returns Number of images in the gallery
+   * Gets the number of image galleries in the reviews section.
    */
-  async getReviewImageCount(): Promise<number> {
+  async getGalleryCount(): Promise<number> {
     await this.lightGalleryContainer.waitFor({ state: 'visible' });
-    return await this.lightGalleryImages.count();
+    return await this.lightGalleries.count();
   }
 
   /**
-   * Clicks on a review image gallery to open the lightbox.
+   * Gets the count of review images in a gallery.
+   * @param galleryIndex Which gallery to count (defaults to the first)
+   * @returns Number of images in the gallery
+   */
+  async getReviewImageCount(galleryIndex: number = 0): Promise<number> {
+    await this.lightGalleries.nth(galleryIndex).waitFor({ state: 'visible' });
+    return await this.galleryImages(galleryIndex).count();
+  }
+
+  /**
+   * Clicks on a review image gallery to open the lightbox
+   * (tabs to the image and presses Enter in keyboard mode).
    * @param imageIndex Optional index of the image to click (defaults to first)
+   * @param galleryIndex Optional index of the gallery (defaults to first)
    */
-  async clickReviewImage(imageIndex: number = 0): Promise<void> {
-    await this.lightGalleryImages.nth(imageIndex).waitFor({
+  async clickReviewImage(
+    imageIndex: number = 0,
+    galleryIndex: number = 0,
+  ): Promise<void> {
+    const image = this.galleryImages(galleryIndex).nth(imageIndex);
+    await image.waitFor({ state: 'visible' });
+    await this.interaction.activate(image);
+    this.openedFrom = { galleryIndex, imageIndex };
+    // Wait for lightbox to appear and finish its opening transition
+    await this.lightbox.waitFor({
       state: 'visible',
+      timeout: transitionTimeout(),
     });
-    await this.lightGalleryImages.nth(imageIndex).click();
-    // Wait for lightbox to appear
-    await this.lightbox.waitFor({ state: 'visible', timeout: 2000 });
+    await waitForCssTransitions(this.lightbox);
   }
 
   /**
@@ -175,33 +404,294 @@ export class ReviewsComponent {
   }
 
   /**
-   * Closes the lightbox/gallery.
+   * Shows the next or previous image in the open lightbox
+   * (arrow keys in keyboard mode, a swipe on touch devices).
+   * @param direction Image to show relative to the current one
+   */
+  private async moveLightbox(direction: 'previous' | 'next'): Promise<void> {
+    const current = await this.getCurrentImageIndex();
+    if (this.interaction.isKeyboard) {
+      await this.page.keyboard.press(
+        direction === 'next' ? 'ArrowRight' : 'ArrowLeft',
+      );
+    } else if (await isTouchDevice(this.page)) {
+      await swipe(
+        this.page,
+        this.lightboxInner,
+        direction === 'next' ? 'left' : 'right',
+      );
+    } else {
+      await (
+        direction === 'next' ? this.lightboxNextButton : this.lightboxPrevButton
+      ).click();
+    }
+    await expect
+      .poll(() => this.getCurrentImageIndex(), {
+        message: `Lightbox did not move from image ${current}`,
+        timeout: transitionTimeout(),
+      })
+      .not.toBe(current);
+    await waitForCssTransitions(this.lightboxInner);
+  }
+
+  /**
+   * Shows the next image in the open lightbox (wraps to the first after the last).
+   */
+  async lightboxNext(): Promise<void> {
+    await this.moveLightbox('next');
+  }
+
+  /**
+   * Shows the previous image in the open lightbox (wraps to the last before the first).
+   */
+  async lightboxPrevious(): Promise<void> {
+    await this.moveLightbox('previous');
+  }
+
+  /**
+   * Moves the open lightbox to an image, taking the shorter way round.
+   * @param imageNumber Image to show (1-based, as in the counter)
+   */
+  async lightboxGoTo(imageNumber: number): Promise<void> {
+    const total = await this.getTotalImageCount();
+    if (imageNumber < 1 || imageNumber > total) {
+      throw new Error(
+        `Lightbox has ${total} image(s), cannot go to image ${imageNumber}`,
+      );
+    }
+    const current = await this.getCurrentImageIndex();
+    const forward = (imageNumber - current + total) % total;
+    const backward = total - forward;
+    const steps = Math.min(forward, backward);
+    for (let step = 0; step < steps; step++) {
+      await (forward <= backward
+        ? this.lightboxNext()
+        : this.lightboxPrevious());
+    }
+    await this.expectCurrentImageIndex(imageNumber);
+  }
+
+  // ============================================
+  // Lightbox Zoom and Fullscreen (lightGallery plugins)
+  // ============================================
+
+  private controlButton(control: LightboxControl): Locator {
+    return control === 'zoom'
+      ? this.lightboxZoomInButton
+      : this.lightboxFullscreenButton;
+  }
+
+  /**
+   * Whether the open lightbox shows a plugin control.
+   */
+  async hasLightboxControl(control: LightboxControl): Promise<boolean> {
+    return await this.controlButton(control).isVisible();
+  }
+
+  private async expectLightboxControl(control: LightboxControl): Promise<void> {
+    await expect(
+      this.controlButton(control),
+      `The lightbox has no ${control} control (lg-${control} plugin not loaded)`,
+    ).toBeVisible();
+  }
+
+  /**
+   * Whether the current lightbox image is zoomed in.
+   */
+  async isLightboxZoomed(): Promise<boolean> {
+    return /\blg-zoomed\b/.test(
+      (await this.lightbox.getAttribute('class')) ?? '',
+    );
+  }
+
+  /**
+   * Whether the lightbox is in fullscreen mode.
+   */
+  async isLightboxFullscreen(): Promise<boolean> {
+    const outerClass = (await this.lightbox.getAttribute('class')) ?? '';
+    return (
+      /\blg-fullscreen-on\b/.test(outerClass) ||
+      (await this.page.evaluate(() => document.fullscreenElement !== null))
+    );
+  }
+
+  /**
+   * Zooms the current image in, or back out when it is zoomed.
+   * @returns Whether the image is zoomed afterwards
+   */
+  async toggleLightboxZoom(): Promise<boolean> {
+    await this.expectLightboxControl('zoom');
+    const zoomed = await this.isLightboxZoomed();
+    await (
+      zoomed ? this.lightboxZoomOutButton : this.lightboxZoomInButton
+    ).click();
+    await expect
+      .poll(() => this.isLightboxZoomed(), { timeout: transitionTimeout() })
+      .toBe(!zoomed);
+    return !zoomed;
+  }
+
+  /**
+   * Enters or leaves fullscreen mode.
+   * @returns Whether the lightbox is in fullscreen afterwards
+   */
+  async toggleLightboxFullscreen(): Promise<boolean> {
+    await this.expectLightboxControl('fullscreen');
+    const fullscreen = await this.isLightboxFullscreen();
+    await this.lightboxFullscreenButton.click();
+    await expect
+      .poll(() => this.isLightboxFullscreen(), { timeout: transitionTimeout() })
+      .toBe(!fullscreen);
+    return !fullscreen;
+  }
+
+  /**
+   * Toggles a plugin control by name.
+   * @returns Whether the control is on afterwards
+   */
+  async toggleLightboxControl(control: LightboxControl): Promise<boolean> {
+    return control === 'zoom'
+      ? await this.toggleLightboxZoom()
+      : await this.toggleLightboxFullscreen();
+  }
+
+  /**
+   * Closes the lightbox/gallery (Escape in keyboard mode).
    */
   async closeLightbox(): Promise<void> {
     await this.lightboxCloseButton.waitFor({ state: 'visible' });
-    await this.lightboxCloseButton.click();
-    // Wait for lightbox to close
-    await this.lightbox
-      .waitFor({ state: 'hidden', timeout: 1000 })
-      .catch(() => {
-        // Lightbox might use display: none, check via waitForFunction
-      });
-    await this.page.waitForFunction(
-      () => {
-        const lightbox = document.querySelector('.lg-outer.lg-visible');
-        return !lightbox || lightbox.classList.contains('lg-visible') === false;
-      },
-      { timeout: 1000 },
-    );
+    await this.interaction.dismiss(this.lightboxCloseButton);
+    // Wait for lightbox to close (lg-visible removed or the element detached)
+    await this.lightbox.waitFor({
+      state: 'hidden',
+      timeout: transitionTimeout(),
+    });
   }
 
   /**
-   * Asserts that the lightbox shows the expected image index.
+   * Asserts that the lightbox shows the expected image index, retrying while the counter
+   * catches up with a transition.
    * @param expectedIndex Expected image index (1-based)
    */
   async expectCurrentImageIndex(expectedIndex: number): Promise<void> {
-    const currentIndex = await this.getCurrentImageIndex();
-    expect(currentIndex).toBe(expectedIndex);
+    await expect
+      .poll(() => this.getCurrentImageIndex(), {
+        message: `Lightbox should show image ${expectedIndex}`,
+        timeout: transitionTimeout(),
+      })
+      .toBe(expectedIndex);
+  }
+
+  /**
+   * Gets the full-size source of a gallery thumbnail: lightGallery reads it from
+   * `data-src`, then `href`, then the image itself.
+   */
+  private async getThumbnailSource(
+    galleryIndex: number,
+    imageIndex: number,
+  ): Promise<string | null> {
+    return await this.galleryImages(galleryIndex)
+      .nth(imageIndex)
+      .evaluate(
+        (item) =>
+          item.getAttribute('data-src') ??
+          item.getAttribute('href') ??
+          item.getAttribute('src') ??
+          item.querySelector('img')?.getAttribute('src') ??
+          null,
+      );
+  }
+
+  /**
+   * Asserts that the lightbox shows the image of the thumbnail at the counter's
+   * position in the gallery it was opened from (the clicked one right after opening).
+   */
+  async expectLightboxImageMatchesThumbnail(): Promise<void> {
+    const { galleryIndex } = this.openedFrom;
+    const imageIndex = (await this.getCurrentImageIndex()) - 1;
+    const expectedSrc = await this.getThumbnailSource(galleryIndex, imageIndex);
+    await expect(this.lightboxCurrentImage).toBeVisible();
+    const displayedSrc = await this.lightboxCurrentImage.getAttribute('src');
+
+    // Compare file names without extension and hash (e.g. review-3.3f69c48b.jpg)
+    const fileStem = (src: string | null) =>
+      src?.split('?')[0].split('/').pop()?.split('.')[0] || '';
+    expect(
+      fileStem(displayedSrc),
+      `Lightbox shows ${displayedSrc}, thumbnail ${imageIndex + 1} of gallery ${galleryIndex} links to ${expectedSrc}`,
+    ).toBe(fileStem(expectedSrc));
+  }
+
+  /**
+   * Asserts that the image the lightbox was opened on is the one that was clicked.
+   */
+  async expectLightboxOpenedOnClickedImage(): Promise<void> {
+    await this.expectCurrentImageIndex(this.openedFrom.imageIndex + 1);
+    await this.expectLightboxImageMatchesThumbnail();
+  }
+
+  // ============================================
+  // Visual Regression
+  // ============================================
+
+  /**
+   * Brings the reviews into a state and compares it with its `reviews/<state>` baseline.
+   * The lightbox state captures the lightbox opened on the first image.
+   */
+  async expectVisualMatch(state: ReviewsVisualState): Promise<void> {
+    if (state === 'lightbox') {
+      await this.clickReviewImage(0);
+      await this.expectLightboxVisible();
+      await expectVisualMatch(this.page, this.lightbox, 'reviews', state);
+      return;
+    }
+    if ((await this.isExpanded()) !== (state === 'expanded')) {
+      await this.toggleShowMoreLess();
+    }
+    if (state === 'expanded') {
+      await this.expectExpanded();
+    } else {
+      await this.expectCollapsed();
+    }
+    await expectVisualMatch(this.page, this.reviewsContainer, 'reviews', state);
+  }
+
+  // ============================================
+  // Keyboard Focus
+  // ============================================
+
+  /**
+   * Asserts that Tab reaches the first gallery image before the show more/less button.
+   */
+  async expectFocusOrder(): Promise<void> {
+    await this.interaction.expectFocusOrder([
+      this.lightGalleryImages.first(),
+      this.showMoreLessButton,
+    ]);
+  }
+
+  /**
+   * Asserts that the focused element inside the reviews section shows a visible focus indicator.
+   */
+  async expectFocusVisible(): Promise<void> {
+    await this.interaction.expectFocusVisible(
+      this.reviewsContainer.locator(':focus'),
+    );
+  }
+
+  // ============================================
+  // Accessibility
+  // ============================================
+
+  /**
+   * Audits the reviews section against the local accessibility rules:
+   * show more/less button name, gallery image alt texts and links.
+   */
+  async expectAccessible(): Promise<A11yReport> {
+    return await expectNoA11yViolations(this.page, {
+      name: 'reviews',
+      scope: this.reviewsContainer,
+    });
   }
 
   // Expose locators for tests
@@ -223,6 +713,12 @@ export class ReviewsComponent {
   get lightGalleryImagesLocator(): Locator {
     return this.lightGalleryImages;
   }
+  get reviewItemsLocator(): Locator {
+    return this.reviewItems;
+  }
+  get reviewImagesLocator(): Locator {
+    return this.lightGalleries.locator('.review__img');
+  }
   get lightboxLocator(): Locator {
     return this.lightbox;
   }
@@ -1,5 +1,57 @@
 import { expect, type Locator, type Page } from '@playwright/test';
 
+import {
+  expectNoA11yViolations,
+  type A11yReport,
+} from '../../utils/accessibility';
+import { drag, type SwipeDirection } from '../../utils/gestures';
+import { Interaction, type InteractionMode } from '../../utils/interaction';
+import {
+  waitForCssTransitions,
+  waitForSlickChange,
+} from '../../utils/transitions';
+import { expectVisualMatch } from '../../utils/visual';
+
+/**
+ * Result of a drag or swipe on the main slider.
+ * "snapped-back" means the drag stayed below slick's threshold and the slide
+ * returned to where it started.
+ */
+export interface SlideGestureResult {
+  outcome: 'changed' | 'snapped-back';
+  /** Active slide index before the gesture */
+  from: number;
+  /** Active slide index after the gesture */
+  to: number;
+  /** Horizontal drag distance in pixels, negative to the left */
+  offsetX: number;
+}
+
+/**
+ * Autoplay options of the slick instance.
+ */
+export interface AutoplaySettings {
+  autoplay: boolean;
+  autoplaySpeed: number;
+  pauseOnHover: boolean;
+  pauseOnFocus: boolean;
+}
+
+/**
+ * Slide changes seen while moving the fake clock forward.
+ */
+export interface SlideChangeObservation {
+  /** Observed time span in milliseconds */
+  durationMs: number;
+  /** Each change with its time since the observation started */
+  changes: { atMs: number; from: number; to: number }[];
+  /** Time between consecutive changes */
+  intervalsMs: number[];
+}
+
+/** Share of the slider width covered by swipeLeft / swipeRight */
+const FULL_SWIPE_DISTANCE = 0.6;
+
 /**
  * Reusable Slider Component.
  * Can be used on any page that contains a slider with the specified structure.
@@ -7,15 +59,22 @@ import { expect, type Locator, type Page } from '@playwright/test';
 export class SliderComponent {
   private readonly page: Page;
   private readonly container: Locator;
+  private readonly interaction: Interaction;
 
   /**
    * Creates a new SliderComponent instance.
    * @param page The Playwright page instance
    * @param containerSelector Optional container selector. If not provided, uses default slider selector.
+   * @param interactionMode Navigate with the mouse or with the keyboard only
    */
-  constructor(page: Page, containerSelector: string = '.sliderTheme_blue') {
+  constructor(
+    page: Page,
+    containerSelector: string = '.sliderTheme_blue',
+    interactionMode: InteractionMode = 'mouse',
+  ) {
     this.page = page;
     this.container = page.locator(containerSelector).first();
+    this.interaction = new Interaction(page, interactionMode);
   }
 
   // Main slider elements (using getters for lazy initialization)
@@ -44,6 +103,10 @@ export class SliderComponent {
     return this.previewSlider.locator('img[alt="preview"]');
   }
 
+  private get track(): Locator {
+    return this.mainSlider.locator('.slick-track').first();
+  }
+
   // Navigation buttons
   private get prevButton(): Locator {
     return this.mainSlider.locator('.slick-prev');
@@ -151,46 +214,65 @@ export class SliderComponent {
   // ============================================
 
   /**
-   * Waits for the slide transition to complete by checking the active slide's opacity.
-   * Uses a proper wait strategy instead of fixed timeout.
-   */
-  private async waitForSlideTransition(): Promise<void> {
-    // Wait for CSS transition to complete by checking opacity
-    await this.page.waitForFunction(
-      () => {
-        const currentSlide = document.querySelector(
-          '.sliderDefault__item.slick-current',
-        );
-        if (!currentSlide) return false;
-        const style = window.getComputedStyle(currentSlide);
-        return parseFloat(style.opacity) === 1;
-      },
-      { timeout: 1000 },
-    );
+   * Uses a slick arrow, or swipes when the arrows are hidden (small screens).
+   */
+  private async navigate(
+    arrow: Locator,
+    swipeDirection: SwipeDirection,
+  ): Promise<void> {
+    await this.mainSlider.waitFor({ state: 'visible' });
+    if (await arrow.isVisible()) {
+      await waitForSlickChange(this.mainSlider, () =>
+        this.interaction.activate(arrow),
+      );
+    } else {
+      const result = await (swipeDirection === 'left'
+        ? this.swipeLeft()
+        : this.swipeRight());
+      expect(
+        result.outcome,
+        `Swiping ${swipeDirection} instead of the hidden arrow did not leave slide ${result.from}`,
+      ).toBe('changed');
+    }
   }
 
   /**
-   * Clicks the previous button to navigate to the previous slide.
+   * Clicks the previous button to navigate to the previous slide
+   * (tabs to it and presses Enter in keyboard mode, swipes right when it is hidden).
    * Waits for the slide transition to complete.
    */
   async clickPrevious(): Promise<void> {
-    await this.prevButton.waitFor({ state: 'visible' });
-    await this.prevButton.click();
-    await this.waitForSlideTransition();
+    await this.navigate(this.prevButton, 'right');
   }
 
   /**
-   * Clicks the next button to navigate to the next slide.
+   * Clicks the next button to navigate to the next slide
+   * (tabs to it and presses Enter in keyboard mode, swipes left when it is hidden).
    * Waits for the slide transition to complete.
    */
   async clickNext(): Promise<void> {
-    await this.nextButton.waitFor({ state: 'visible' });
-    await this.nextButton.click();
-    await this.waitForSlideTransition();
+    await this.navigate(this.nextButton, 'left');
+  }
+
+  /**
+   * Tabs to a slider arrow and changes the slide with the arrow keys.
+   * Slick handles ArrowLeft / ArrowRight on its arrows when accessibility is on.
+   * @param direction Slide to show relative to the current one
+   */
+  async pressArrowKey(direction: 'previous' | 'next'): Promise<void> {
+    await this.interaction.focusByTab(
+      direction === 'next' ? this.nextButton : this.prevButton,
+    );
+    await waitForSlickChange(this.mainSlider, () =>
+      this.page.keyboard.press(
+        direction === 'next' ? 'ArrowRight' : 'ArrowLeft',
+      ),
+    );
   }
 
   /**
    * Clicks a specific preview thumbnail by index (0-based).
+   * Clicking the thumbnail of the current slide does not wait for a slide change.
    * @param index The index of the preview thumbnail to click
    */
   async clickPreviewThumbnail(index: number): Promise<void> {
@@ -200,9 +282,282 @@ export class SliderComponent {
     );
     const targetPreview = previewItems.nth(index);
     await targetPreview.waitFor({ state: 'visible' });
-    await targetPreview.click();
-    // Wait for transition to complete
-    await this.waitForSlideTransition();
+    // The main slider follows the preview slider (asNavFor)
+    await waitForSlickChange(this.mainSlider, () => targetPreview.click(), {
+      targetIndex: index,
+    });
+  }
+
+  // ============================================
+  // Slider Gesture Methods - Swipe and Drag
+  // ============================================
+
+  /**
+   * Reads the slick track's horizontal translation once it stops moving: its CSS
+   * transition has ended and two samples taken an interval apart agree.
+   */
+  private async getSettledTrackOffset(): Promise<number> {
+    const readOffset = () =>
+      this.track.evaluate((track) => {
+        const style = window.getComputedStyle(track);
+        return style.transform === 'none'
+          ? Math.round(parseFloat(style.left) || 0)
+          : Math.round(new DOMMatrixReadOnly(style.transform).m41);
+      });
+    await waitForCssTransitions(this.track);
+    // expect.poll checks at once: the first check only takes the reference sample
+    let previous: number | undefined;
+    await expect
+      .poll(
+        async () => {
+          const current = await readOffset();
+          const settled = current === previous;
+          previous = current;
+          return settled;
+        },
+        { message: 'Slick track did not stop moving', intervals: [100] },
+      )
+      .toBe(true);
+    return previous as number;
+  }
+
+  /**
+   * Records how far the slick track moves away from `startOffset` until the returned
+   * function is called, which stops recording and returns the largest shift in pixels.
+   * Slick moves the track through its inline style while a drag is in progress.
+   */
+  private async watchTrackShift(
+    startOffset: number,
+  ): Promise<() => Promise<number>> {
+    type WatchedTrack = HTMLElement & {
+      qaShiftWatch?: { maxShift: number; observer: MutationObserver };
+    };
+    await this.track.evaluate((track: WatchedTrack, start) => {
+      const watch = {
+        maxShift: 0,
+        observer: new MutationObserver(() => {
+          const style = window.getComputedStyle(track);
+          const offset =
+            style.transform === 'none'
+              ? parseFloat(style.left) || 0
+              : new DOMMatrixReadOnly(style.transform).m41;
+          watch.maxShift = Math.max(watch.maxShift, Math.abs(offset - start));
+        }),
+      };
+      watch.observer.observe(track, {
+        attributes: true,
+        attributeFilter: ['style'],
+      });
+      track.qaShiftWatch = watch;
+    }, startOffset);
+    return async () =>
+      await this.track.evaluate((track: WatchedTrack) => {
+        const watch = track.qaShiftWatch;
+        watch?.observer.disconnect();
+        delete track.qaShiftWatch;
+        return Math.round(watch?.maxShift ?? 0);
+      });
+  }
+
+  /**
+   * Gets the drag distance slick needs to change slides:
+   * the list width divided by the `touchThreshold` option (5 by default).
+   */
+  async getSwipeThreshold(): Promise<number> {
+    return await this.mainSlider.evaluate((slider) => {
+      const slick = (
+        slider as HTMLElement & {
+          slick?: { listWidth?: number; options?: { touchThreshold?: number } };
+        }
+      ).slick;
+      const list = slider.querySelector('.slick-list') ?? slider;
+      const width = slick?.listWidth ?? list.getBoundingClientRect().width;
+      return width / (slick?.options?.touchThreshold ?? 5);
+    });
+  }
+
+  /**
+   * Drags the main slider horizontally: touch drag on touch devices, mouse drag elsewhere.
+   * Tells a slide change from a snap-back. A drag that never moves the track (the
+   * gesture did not reach slick) or that neither changes the slide nor returns the
+   * track to its start fails.
+   * @param offsetX Drag distance in pixels, negative to the left (towards the next slide)
+   */
+  async dragBy(offsetX: number): Promise<SlideGestureResult> {
+    const from = await this.getActiveSlideIndex();
+    const startOffset = await this.getSettledTrackOffset();
+    const stopWatching = await this.watchTrackShift(startOffset);
+
+    await drag(this.page, this.mainSlider, offsetX);
+
+    const endOffset = await this.getSettledTrackOffset();
+    const maxShift = await stopWatching();
+    const to = await this.getActiveSlideIndex();
+    if (to !== from) {
+      await waitForCssTransitions(this.mainSlider);
+      return { outcome: 'changed', from, to, offsetX };
+    }
+    expect(
+      maxShift,
+      `Dragging slide ${from} by ${offsetX}px never moved the track: the gesture did not reach slick`,
+    ).toBeGreaterThan(1);
+    expect(
+      Math.abs(endOffset - startOffset),
+      `Slide ${from} neither changed nor snapped back: the track moved from ${startOffset}px to ${endOffset}px`,
+    ).toBeLessThanOrEqual(1);
+    return { outcome: 'snapped-back', from, to, offsetX };
+  }
+
+  /**
+   * Swipes to the next slide (content moves left).
+   */
+  async swipeLeft(): Promise<SlideGestureResult> {
+    return await this.dragBy(-(await this.getFullSwipeDistance()));
+  }
+
+  /**
+   * Swipes to the previous slide (content moves right).
+   */
+  async swipeRight(): Promise<SlideGestureResult> {
+    return await this.dragBy(await this.getFullSwipeDistance());
+  }
+
+  private async getFullSwipeDistance(): Promise<number> {
+    await this.mainSlider.waitFor({ state: 'visible' });
+    const box = await this.mainSlider.boundingBox();
+    return (box?.width ?? 0) * FULL_SWIPE_DISTANCE;
+  }
+
+  // ============================================
+  // Slider Autoplay Methods - Timing on Playwright's fake clock
+  // ============================================
+
+  /**
+   * Reads the autoplay options of the main slick instance.
+   * @returns null when the slider is not initialised by slick
+   */
+  async getAutoplaySettings(): Promise<AutoplaySettings | null> {
+    return await this.mainSlider.evaluate((slider) => {
+      const options = (
+        slider as HTMLElement & { slick?: { options: AutoplaySettings } }
+      ).slick?.options;
+      return options
+        ? {
+            autoplay: options.autoplay,
+            autoplaySpeed: options.autoplaySpeed,
+            pauseOnHover: options.pauseOnHover,
+            pauseOnFocus: options.pauseOnFocus,
+          }
+        : null;
+    });
+  }
+
+  /**
+   * Pauses the fake clock, then moves it forward in steps and records every active
+   * slide change. Needs the clock installed before the page loads (`fakeClock` fixture
+   * option). While paused only `runFor` moves time, so no real time leaks into the
+   * measured intervals.
+   * @param durationMs Time span to observe
+   * @param stepMs Clock step; changes are timed to this precision
+   */
+  async observeSlideChanges(
+    durationMs: number,
+    stepMs: number = 100,
+  ): Promise<SlideChangeObservation> {
+    // pauseAt only jumps forward: pause just ahead of the page's current time
+    const now = await this.page.evaluate(() => Date.now());
+    await this.page.clock.pauseAt(now + 1);
+    const changes: SlideChangeObservation['changes'] = [];
+    let previous = await this.getActiveSlideIndex();
+    for (let atMs = stepMs; atMs <= durationMs; atMs += stepMs) {
+      await this.page.clock.runFor(stepMs);
+      const current = await this.getActiveSlideIndex();
+      if (current !== previous) {
+        changes.push({ atMs, from: previous, to: current });
+        previous = current;
+      }
+    }
+    return {
+      durationMs,
+      changes,
+      intervalsMs: changes
+        .slice(1)
+        .map((change, index) => change.atMs - changes[index].atMs),
+    };
+  }
+
+  /**
+   * Asserts that autoplay changes slides every `intervalMs` (three intervals observed).
+   * @param intervalMs Expected time between two slide changes
+   * @param toleranceMs Allowed deviation, also the observation step
+   */
+  async expectAutoplayInterval(
+    intervalMs: number,
+    toleranceMs: number = 100,
+  ): Promise<SlideChangeObservation> {
+    const observation = await this.observeSlideChanges(
+      intervalMs * 3 + toleranceMs,
+      toleranceMs,
+    );
+    const report = `changes: ${JSON.stringify(observation.changes)}`;
+    expect(
+      observation.changes.length,
+      `Autoplay changed slides ${observation.changes.length} time(s) in ${observation.durationMs}ms, ${report}`,
+    ).toBeGreaterThanOrEqual(2);
+    observation.intervalsMs.forEach((actualMs) => {
+      expect(
+        Math.abs(actualMs - intervalMs),
+        `Autoplay interval was ${actualMs}ms instead of ${intervalMs}ms, ${report}`,
+      ).toBeLessThanOrEqual(toleranceMs);
+    });
+    return observation;
+  }
+
+  /**
+   * Asserts that no slide changes for two intervals while paused, and that
+   * autoplay resumes once `resume` ends the pause.
+   */
+  private async expectPausedWhile(
+    reason: string,
+    intervalMs: number,
+    resume: () => Promise<void>,
+  ): Promise<void> {
+    const paused = await this.observeSlideChanges(intervalMs * 2);
+    expect(
+      paused.changes,
+      `Autoplay kept changing slides while ${reason}`,
+    ).toEqual([]);
+
+    await resume();
+    const resumed = await this.observeSlideChanges(intervalMs * 2);
+    expect(
+      resumed.changes.length,
+      `Autoplay did not resume after ${reason}`,
+    ).toBeGreaterThan(0);
+  }
+
+  /**
+   * Asserts that autoplay pauses while the pointer is over the slider
+   * and resumes when it leaves.
+   * @param intervalMs Autoplay interval of the slider
+   */
+  async expectPausedOnHover(intervalMs: number): Promise<void> {
+    await this.mainSlider.hover();
+    await this.expectPausedWhile('hovered', intervalMs, async () => {
+      await this.page.mouse.move(0, 0);
+    });
+  }
+
+  /**
+   * Asserts that autoplay pauses while a slider control has focus
+   * and resumes when focus leaves the slider.
+   * @param intervalMs Autoplay interval of the slider
+   */
+  async expectPausedOnFocus(intervalMs: number): Promise<void> {
+    await this.nextButton.focus();
+    await this.expectPausedWhile('focused', intervalMs, async () => {
+      await this.nextButton.blur();
+    });
   }
 
   // ============================================
@@ -294,5 +649,68 @@ export class SliderComponent {
       (el) => window.getComputedStyle(el).opacity,
     );
     expect(parseFloat(opacity)).toBeGreaterThan(0);
+    // A 404 or undecodable image still renders an empty box: wait for real pixels
+    await expect
+      .poll(() => img.evaluate((el: HTMLImageElement) => el.naturalWidth), {
+        message: `Slide ${index} image did not load`,
+      })
+      .toBeGreaterThan(0);
+  }
+
+  // ============================================
+  // Visual Regression
+  // ============================================
+
+  /**
+   * Shows a slide and compares the slider with its `slider/slide-<index>` baseline.
+   * @param slideIndex The slide to show (0-based)
+   */
+  async expectVisualMatch(slideIndex: number): Promise<void> {
+    await this.clickPreviewThumbnail(slideIndex);
+    await this.expectActiveSlideIndex(slideIndex);
+    await expectVisualMatch(
+      this.page,
+      this.container,
+      'slider',
+      `slide-${slideIndex}`,
+    );
+  }
+
+  // ============================================
+  // Keyboard Focus
+  // ============================================
+
+  /**
+   * Asserts that Tab reaches the previous arrow before the next arrow.
+   */
+  async expectFocusOrder(): Promise<void> {
+    await this.interaction.expectFocusOrder([this.prevButton, this.nextButton]);
+  }
+
+  /**
+   * Asserts that the focused element inside the slider shows a visible focus indicator.
+   */
+  async expectFocusVisible(): Promise<void> {
+    await this.interaction.expectFocusVisible(this.container.locator(':focus'));
+  }
+
+  // ============================================
+  // Accessibility
+  // ============================================
+
+  /**
+   * Audits the slider against the local accessibility rules:
+   * slick prev/next button names and slide/thumbnail alt texts.
+   */
+  async expectAccessible(): Promise<A11yReport> {
+    return await expectNoA11yViolations(this.page, {
+      name: 'slider',
+      scope: this.container,
+    });
+  }
+
+  // Expose locators for tests
+  get slideImagesLocator(): Locator {
+    return this.mainSliderImages;
   }
 }
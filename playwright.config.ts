@@ -1,22 +1,100 @@
-import { defineConfig, devices } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { defineConfig, devices, type Project } from '@playwright/test';
+
+import {
+  loadEnvironment,
+  replayPort,
+  type TestTag,
+} from './config/environments';
+import { HEALTH_PATH } from './replay/server';
+
+/**
+ * The environment profile is chosen with TEST_ENV (local, dev, staging, prod-readonly).
+ * See config/environments.ts for the profiles and docs/README.md for usage.
+ */
+const environment = loadEnvironment();
+
+/**
+ * Builds the grepInvert of a project: the profile's excluded tags plus the tags
+ * of tests that do not apply to the project's device kind.
+ */
+function excludeTags(tags: readonly TestTag[]): RegExp | undefined {
+  const excluded = [...environment.excludedTags, ...tags];
+  return excluded.length > 0 ? new RegExp(excluded.join('|')) : undefined;
+}
+
+const SCREENSHOTS_DIR = path.join(__dirname, 'tests', '__screenshots__');
+const UPDATING_SNAPSHOTS = process.argv.some((arg) =>
+  /^(--update-snapshots|-u)(=|$)/.test(arg),
+);
+
+/**
+ * On CI, `@visual` tests are left out of projects with no committed baselines, which
+ * would only fail with "missing snapshot". `npm run test:visual:update` records them.
+ */
+function visualTags(projectName: string): TestTag[] {
+  const hasBaselines = fs.existsSync(path.join(SCREENSHOTS_DIR, projectName));
+  return process.env.CI && !hasBaselines && !UPDATING_SNAPSHOTS
+    ? ['@visual']
+    : [];
+}
+
+/**
+ * Browser and device matrix. Run one project with `--project=<name>`.
+ */
+const desktopProjects: Project[] = [
+  { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+  { name: 'firefox', use: { ...devices['Desktop Firefox'] } },
+  { name: 'webkit', use: { ...devices['Desktop Safari'] } },
+].map((project) => ({
+  ...project,
+  grepInvert: excludeTags(['@mobile-only', ...visualTags(project.name)]),
+}));
+
+const mobileProjects: Project[] = [
+  { name: 'mobile-chrome', use: { ...devices['Pixel 7'] } },
+  { name: 'mobile-safari', use: { ...devices['iPhone 14'] } },
+].map((project) => ({
+  ...project,
+  grepInvert: excludeTags(['@desktop-only', ...visualTags(project.name)]),
+}));
 
 export default defineConfig({
   testDir: './tests',
-  timeout: 30000,
-  retries: 2,
-  reporter: [['list'], ['html']],
+  // Screenshot baselines per browser project: tests/__screenshots__/<project>/<component>/<name>.png
+  snapshotPathTemplate: '{testDir}/__screenshots__/{projectName}/{arg}{ext}',
+  timeout: environment.timeouts.test,
+  retries: environment.retries,
+  reporter: [['list'], ['html'], ['./reporters/traceabilityReporter.ts']],
+  expect: {
+    timeout: environment.timeouts.expect,
+    toHaveScreenshot: {
+      animations: 'disabled',
+      caret: 'hide',
+    },
+  },
+  metadata: {
+    environment: environment.name,
+    baseURL: environment.baseURL,
+  },
   use: {
-    baseURL: 'https://test-qa.capslock.global',
+    baseURL: environment.baseURL,
     headless: true,
+    actionTimeout: environment.timeouts.action,
+    navigationTimeout: environment.timeouts.navigation,
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
     trace: 'retain-on-failure',
   },
-  projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-  ],
+  webServer: environment.replay
+    ? {
+        command: 'npx ts-node replay/server.ts',
+        url: new URL(HEALTH_PATH, environment.baseURL).toString(),
+        env: { REPLAY_PORT: replayPort(environment) },
+        reuseExistingServer: !process.env.CI,
+      }
+    : undefined,
+  projects: [...desktopProjects, ...mobileProjects],
 });
-
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directory that holds the recorded landing page snapshot.
+ * Bodies live under `files/`, the index of recorded responses in `manifest.json`.
+ */
+export const SNAPSHOT_DIR = path.resolve(__dirname, 'snapshot');
+export const MANIFEST_PATH = path.join(SNAPSHOT_DIR, 'manifest.json');
+
+/**
+ * Prefix used to serve assets recorded from third-party origins (CDNs, APIs).
+ * e.g. `https://cdn.example.com/slick.js` is replayed as `/__origin/cdn.example.com/slick.js`.
+ */
+export const FOREIGN_ORIGIN_PREFIX = '/__origin';
+
+/**
+ * A single recorded response.
+ */
+export interface ManifestEntry {
+  method: string;
+  /** Original URL as requested by the live page */
+  url: string;
+  status: number;
+  contentType: string;
+  /** Body file name relative to `snapshot/files` */
+  file: string;
+}
+
+/**
+ * Index of every response recorded from the live landing page.
+ * Entries are keyed by `<METHOD> <local path>`, e.g. `GET /assets/app.js`.
+ */
+export interface SnapshotManifest {
+  recordedAt: string;
+  origin: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+/**
+ * Builds the manifest key for a request served by the replay server.
+ */
+export function entryKey(method: string, localPath: string): string {
+  return `${method.toUpperCase()} ${localPath}`;
+}
+
+/**
+ * Maps a live URL to the path it is replayed under.
+ * Same-origin URLs keep their path, foreign origins get the `/__origin/<host>` prefix.
+ */
+export function toLocalPath(url: string, recordedOrigin: string): string {
+  const parsed = new URL(url);
+  const pathWithQuery = `${parsed.pathname}${parsed.search}`;
+  if (parsed.origin === recordedOrigin) {
+    return pathWithQuery;
+  }
+  return `${FOREIGN_ORIGIN_PREFIX}/${parsed.host}${pathWithQuery}`;
+}
+
+/**
+ * Reads the snapshot manifest.
+ * Throws a descriptive error when no snapshot has been recorded yet.
+ */
+export function readManifest(): SnapshotManifest {
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    throw new Error(
+      `No landing page snapshot found at ${MANIFEST_PATH}. ` +
+        'Record one with `npm run replay:record` on a machine with network access.',
+    );
+  }
+  return JSON.parse(
+    fs.readFileSync(MANIFEST_PATH, 'utf-8'),
+  ) as SnapshotManifest;
+}
@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { chromium, type Page } from '@playwright/test';
+
+import {
+  FOREIGN_ORIGIN_PREFIX,
+  MANIFEST_PATH,
+  SNAPSHOT_DIR,
+  entryKey,
+  toLocalPath,
+  type ManifestEntry,
+  type SnapshotManifest,
+} from './manifest';
+
+/**
+ * Records the live landing page into `replay/snapshot` so the suite can run offline.
+ *
+ * Usage: `npm run replay:record` (optionally `LIVE_URL=https://... npm run replay:record`)
+ * With `--if-missing` an existing snapshot is kept, so `npm run test:replay` records one
+ * only on the first run (which needs network access) and replays offline afterwards.
+ *
+ * Every response the page loads (HTML, slick slider, lightGallery, quiz form scripts,
+ * images, location lookups) is stored. Text bodies are rewritten so absolute and
+ * protocol-relative URLs point at the replay server instead of the live hosts. Origins the
+ * page builds in JS (such as the geo-IP host) cannot be rewritten in the bodies: the replay
+ * fixture routes them to the server at run time (replay/routing.ts).
+ */
+const LIVE_URL = process.env.LIVE_URL ?? 'https://test-qa.capslock.global';
+const FILES_DIR = path.join(SNAPSHOT_DIR, 'files');
+
+const TEXT_CONTENT_TYPE = /text|javascript|json|xml|svg/i;
+
+interface RecordedBody {
+  entry: ManifestEntry;
+  body: Buffer;
+}
+
+function fileNameFor(method: string, url: string, contentType: string): string {
+  const hash = createHash('sha1').update(`${method} ${url}`).digest('hex');
+  const extension =
+    path.extname(new URL(url).pathname) || guessExtension(contentType);
+  return `${hash.slice(0, 16)}${extension}`;
+}
+
+function guessExtension(contentType: string): string {
+  if (contentType.includes('html')) return '.html';
+  if (contentType.includes('json')) return '.json';
+  if (contentType.includes('javascript')) return '.js';
+  if (contentType.includes('css')) return '.css';
+  return '.bin';
+}
+
+/**
+ * Replaces absolute and protocol-relative (`//host/...`) live URLs in text bodies with
+ * root-relative replay paths.
+ */
+function rewriteOrigins(
+  text: string,
+  recordedOrigin: string,
+  foreignOrigins: Set<string>,
+): string {
+  let rewritten = text
+    .split(recordedOrigin)
+    .join('')
+    .split(`//${new URL(recordedOrigin).host}`)
+    .join('');
+  foreignOrigins.forEach((origin) => {
+    const host = new URL(origin).host;
+    rewritten = rewritten
+      .split(origin)
+      .join(`${FOREIGN_ORIGIN_PREFIX}/${host}`)
+      .split(`//${host}`)
+      .join(`${FOREIGN_ORIGIN_PREFIX}/${host}`);
+  });
+  return rewritten;
+}
+
+/**
+ * Resolves once no recorded request has been in flight for `quietMs`.
+ */
+async function waitForQuiet(
+  inFlight: () => number,
+  quietMs: number = 1000,
+): Promise<void> {
+  let quietSince = Date.now();
+  while (Date.now() - quietSince < quietMs) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    if (inFlight() > 0) {
+      quietSince = Date.now();
+    }
+  }
+}
+
+/**
+ * Exercises the page so lazily loaded assets (slider images, gallery images) are fetched.
+ */
+async function exercisePage(page: Page, inFlight: () => number): Promise<void> {
+  await page.evaluate(async () => {
+    for (let y = 0; y < document.body.scrollHeight; y += 400) {
+      window.scrollTo(0, y);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  });
+  await waitForQuiet(inFlight);
+
+  const reviewImages = page.locator('[data-light-gallery] .review__img');
+  if ((await reviewImages.count()) > 0) {
+    await reviewImages.first().click();
+    await page.locator('.lg-outer.lg-visible').waitFor({ state: 'visible' });
+    for (let i = 0; i < (await reviewImages.count()); i++) {
+      await page.keyboard.press('ArrowRight');
+    }
+    await waitForQuiet(inFlight);
+    await page.keyboard.press('Escape');
+  }
+}
+
+async function record(): Promise<void> {
+  const recordedOrigin = new URL(LIVE_URL).origin;
+  const recorded: RecordedBody[] = [];
+  let inFlight = 0;
+
+  const browser = await chromium.launch();
+  const page = await browser.newPage();
+
+  await page.route('**/*', async (route) => {
+    const request = route.request();
+    inFlight++;
+    try {
+      const response = await route.fetch();
+      const contentType = response.headers()['content-type'] ?? '';
+      recorded.push({
+        entry: {
+          method: request.method(),
+          url: request.url(),
+          status: response.status(),
+          contentType,
+          file: fileNameFor(request.method(), request.url(), contentType),
+        },
+        body: await response.body(),
+      });
+      await route.fulfill({ response });
+    } catch (error) {
+      // Unreachable hosts and aborted requests are not recorded, but must not hang the page
+      console.warn(
+        `Not recorded: ${request.method()} ${request.url()}: ${error}`,
+      );
+      await route.abort().catch(() => undefined);
+    } finally {
+      inFlight--;
+    }
+  });
+
+  try {
+    await page.goto(LIVE_URL);
+    await waitForQuiet(() => inFlight);
+    await exercisePage(page, () => inFlight);
+  } finally {
+    await browser.close();
+  }
+
+  const foreignOrigins = new Set(
+    recorded
+      .map(({ entry }) => new URL(entry.url).origin)
+      .filter(
+        (origin) => origin !== recordedOrigin && origin.startsWith('http'),
+      ),
+  );
+
+  fs.rmSync(FILES_DIR, { recursive: true, force: true });
+  fs.mkdirSync(FILES_DIR, { recursive: true });
+
+  const manifest: SnapshotManifest = {
+    recordedAt: new Date().toISOString(),
+    origin: recordedOrigin,
+    entries: {},
+  };
+
+  recorded
+    .filter(({ entry }) => entry.url.startsWith('http'))
+    .forEach(({ entry, body }) => {
+      const data = TEXT_CONTENT_TYPE.test(entry.contentType)
+        ? rewriteOrigins(body.toString('utf-8'), recordedOrigin, foreignOrigins)
+        : body;
+      fs.writeFileSync(path.join(FILES_DIR, entry.file), data);
+      const key = entryKey(
+        entry.method,
+        toLocalPath(entry.url, recordedOrigin),
+      );
+      manifest.entries[key] = entry;
+    });
+
+  fs.writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(
+    `Recorded ${Object.keys(manifest.entries).length} responses from ${LIVE_URL} into ${SNAPSHOT_DIR}`,
+  );
+}
+
+if (process.argv.includes('--if-missing') && fs.existsSync(MANIFEST_PATH)) {
+  console.log(`Using the snapshot in ${SNAPSHOT_DIR}`);
+} else {
+  record().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
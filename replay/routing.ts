@@ -0,0 +1,37 @@
+import { type BrowserContext } from '@playwright/test';
+
+import { toLocalPath } from './manifest';
+
+/**
+ * Sends the requests a replayed page makes to other origins to the replay server, which
+ * serves them under `/__origin/<host>`. This covers the URLs the page builds in JS (such as
+ * the geo-IP lookup), which the recorder cannot rewrite in the recorded bodies.
+ * Requests that were never recorded get the server's 404 and never reach the internet.
+ */
+export async function routeForeignOriginsToReplay(
+  context: BrowserContext,
+  replayBaseURL: string,
+): Promise<void> {
+  const replayOrigin = new URL(replayBaseURL).origin;
+  await context.route(
+    (url) => url.protocol.startsWith('http') && url.origin !== replayOrigin,
+    async (route) => {
+      const localPath = toLocalPath(route.request().url(), replayOrigin);
+      try {
+        const response = await route.fetch({
+          url: `${replayOrigin}${localPath}`,
+        });
+        // Answered on the original origin: let cross-origin scripts read it
+        await route.fulfill({
+          response,
+          headers: {
+            ...response.headers(),
+            'access-control-allow-origin': '*',
+          },
+        });
+      } catch {
+        await route.abort();
+      }
+    },
+  );
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+import {
+  SNAPSHOT_DIR,
+  entryKey,
+  readManifest,
+  type ManifestEntry,
+  type SnapshotManifest,
+} from './manifest';
+
+/**
+ * Local stand-in for test-qa.capslock.global.
+ * Serves the recorded landing page snapshot so the suite can run without internet.
+ * Started by Playwright's `webServer` for profiles with `replay` set (`TEST_ENV=local`).
+ */
+export const DEFAULT_REPLAY_PORT = 4173;
+
+/** Path polled by Playwright to know the server is ready */
+export const HEALTH_PATH = '/__replay/health';
+
+/** Header set on the 404 answered for a request the snapshot does not hold */
+export const REPLAY_MISS_HEADER = 'x-replay-miss';
+
+function findEntry(
+  manifest: SnapshotManifest,
+  method: string,
+  url: string,
+): ManifestEntry | undefined {
+  const exact = manifest.entries[entryKey(method, url)];
+  if (exact) {
+    return exact;
+  }
+  // Cache-busting query strings differ between runs, fall back to the bare path
+  const [pathname] = url.split('?');
+  return Object.entries(manifest.entries).find(
+    ([key]) => key.split('?')[0] === entryKey(method, pathname),
+  )?.[1];
+}
+
+export function createReplayServer(manifest: SnapshotManifest): http.Server {
+  return http.createServer((request, response) => {
+    const method = request.method ?? 'GET';
+    const url = request.url ?? '/';
+
+    if (url === HEALTH_PATH) {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify({ recordedAt: manifest.recordedAt }));
+      return;
+    }
+
+    const entry = findEntry(manifest, method, url);
+    if (entry) {
+      response.writeHead(entry.status, { 'content-type': entry.contentType });
+      fs.createReadStream(path.join(SNAPSHOT_DIR, 'files', entry.file)).pipe(
+        response,
+      );
+      return;
+    }
+
+    // Lead submissions and tracking beacons were never recorded: acknowledge them
+    if (method !== 'GET') {
+      request.resume();
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end('{}');
+      return;
+    }
+
+    response.writeHead(404, {
+      'content-type': 'text/plain',
+      [REPLAY_MISS_HEADER]: '1',
+    });
+    response.end(`Not recorded in snapshot: ${method} ${url}`);
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.REPLAY_PORT ?? DEFAULT_REPLAY_PORT);
+  let manifest: SnapshotManifest;
+  try {
+    manifest = readManifest();
+  } catch (error) {
+    // Printed by Playwright when the webServer exits: keep it to the actionable message
+    console.error(
+      `Replay server not started: ${(error as Error).message} ` +
+        'Commit replay/snapshot so offline runs can use it.',
+    );
+    process.exit(1);
+  }
+  createReplayServer(manifest).listen(port, () => {
+    console.log(
+      `Replaying ${manifest.origin} (recorded ${manifest.recordedAt}) on http://localhost:${port}`,
+    );
+  });
+}
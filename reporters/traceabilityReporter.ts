@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  type FullConfig,
+  type FullResult,
+  type Reporter,
+  type Suite,
+  type TestCase,
+  type TestResult,
+} from '@playwright/test/reporter';
+
+import { loadDataset } from '../utils/dataLoader';
+import {
+  DEFECT_ANNOTATION,
+  REQUIREMENT_ANNOTATION,
+} from '../utils/traceability';
+
+/** Status of a test in the matrix */
+export type TraceStatus =
+  | 'passed'
+  | 'failed'
+  | 'flaky'
+  | 'skipped'
+  | 'expected-failure'
+  /** Linked to an open defect and expected to fail, but passed */
+  | 'possibly-fixed'
+  | 'not-run';
+
+export interface TracedTest {
+  title: string;
+  file: string;
+  project: string;
+  status: TraceStatus;
+}
+
+export interface RequirementTrace {
+  id: string;
+  title: string;
+  tests: TracedTest[];
+}
+
+export interface TraceabilityMatrix {
+  generatedAt: string;
+  requirements: RequirementTrace[];
+  uncovered: string[];
+  /** IDs used in annotations that are not in data/requirements.json */
+  unknownRequirements: string[];
+  defects: Record<string, TracedTest[]>;
+  /** Defects with at least one linked test that passed although expected to fail */
+  possiblyFixed: string[];
+}
+
+interface TraceabilityReporterOptions {
+  outputDir?: string;
+}
+
+function statusOf(test: TestCase, result: TestResult): TraceStatus {
+  switch (test.outcome()) {
+    case 'skipped':
+      return 'skipped';
+    case 'flaky':
+      return 'flaky';
+    case 'expected':
+      return test.expectedStatus === 'failed' ? 'expected-failure' : 'passed';
+    default:
+      if (test.expectedStatus === 'failed' && result.status === 'passed') {
+        return 'possibly-fixed';
+      }
+      return result.status === 'skipped' ? 'skipped' : 'failed';
+  }
+}
+
+/**
+ * Builds a requirement → tests → status matrix from `covers()` / `relatesTo()` annotations.
+ * Tests of open defects that pass are flagged as "possibly fixed".
+ *
+ * Writes `reports/traceability/matrix.json` and `matrix.md`, and prints the
+ * requirements that no test covers. Requirements come from data/requirements.json.
+ * Nothing is written when no test ran.
+ */
+class TraceabilityReporter implements Reporter {
+  private readonly outputDir: string;
+  // Latest result per test, so retries replace earlier attempts
+  private readonly results = new Map<string, TracedTest & { test: TestCase }>();
+  // Tests that ended, including skipped ones; none under --list
+  private endedTests = 0;
+
+  constructor(options: TraceabilityReporterOptions = {}) {
+    this.outputDir = path.resolve(
+      options.outputDir ?? path.join('reports', 'traceability'),
+    );
+  }
+
+  private record(test: TestCase, status: TraceStatus): void {
+    this.results.set(test.id, {
+      test,
+      title: test.titlePath().slice(3).join(' › '),
+      file: path.relative(process.cwd(), test.location.file),
+      project: test.parent.project()?.name ?? '',
+      status,
+    });
+  }
+
+  onBegin(_config: FullConfig, suite: Suite): void {
+    // Every collected test counts for coverage, even if it never runs (e.g. --grep)
+    suite.allTests().forEach((test) => this.record(test, 'not-run'));
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    this.endedTests++;
+    this.record(test, statusOf(test, result));
+  }
+
+  private testsAnnotatedWith(type: string): Map<string, TracedTest[]> {
+    const byId = new Map<string, TracedTest[]>();
+    this.results.forEach(({ test, ...traced }) => {
+      test.annotations
+        .filter((annotation) => annotation.type === type)
+        .forEach(({ description = '' }) => {
+          byId.set(description, [...(byId.get(description) ?? []), traced]);
+        });
+    });
+    return byId;
+  }
+
+  buildMatrix(): TraceabilityMatrix {
+    const catalog = loadDataset('requirements').requirements;
+    const byRequirement = this.testsAnnotatedWith(REQUIREMENT_ANNOTATION);
+    const byDefect = this.testsAnnotatedWith(DEFECT_ANNOTATION);
+    const requirements = catalog.map(({ id, title }) => ({
+      id,
+      title,
+      tests: byRequirement.get(id) ?? [],
+    }));
+    return {
+      generatedAt: new Date().toISOString(),
+      requirements,
+      uncovered: requirements
+        .filter((requirement) => requirement.tests.length === 0)
+        .map((requirement) => requirement.id),
+      unknownRequirements: [...byRequirement.keys()].filter(
+        (id) => !catalog.some((requirement) => requirement.id === id),
+      ),
+      defects: Object.fromEntries(byDefect),
+      possiblyFixed: [...byDefect.entries()]
+        .filter(([, tests]) =>
+          tests.some((test) => test.status === 'possibly-fixed'),
+        )
+        .map(([id]) => id),
+    };
+  }
+
+  private toMarkdown(matrix: TraceabilityMatrix): string {
+    const lines = [
+      '# Requirement Traceability Matrix',
+      '',
+      `Generated ${matrix.generatedAt}`,
+      '',
+      '| Requirement | Test | Project | Status |',
+      '| ----------- | ---- | ------- | ------ |',
+    ];
+    matrix.requirements.forEach(({ id, title, tests }) => {
+      if (tests.length === 0) {
+        lines.push(`| ${id}: ${title} | _no tests_ | | uncovered |`);
+      }
+      tests.forEach((test) => {
+        lines.push(
+          `| ${id}: ${title} | ${test.title} | ${test.project} | ${test.status} |`,
+        );
+      });
+    });
+    lines.push('', '## Uncovered Requirements', '');
+    lines.push(
+      ...(matrix.uncovered.length > 0
+        ? matrix.uncovered.map((id) => `- ${id}`)
+        : ['None']),
+    );
+    lines.push('', '## Possibly Fixed Defects', '');
+    lines.push(
+      ...(matrix.possiblyFixed.length > 0
+        ? matrix.possiblyFixed.map(
+            (id) =>
+              `- ${id}: linked test passed, verify and update data/defects.json`,
+          )
+        : ['None']),
+    );
+    lines.push('', '## Defects', '');
+    Object.entries(matrix.defects).forEach(([id, tests]) => {
+      lines.push(
+        `- ${id}: ${tests.map((test) => `${test.title} (${test.status})`).join('; ')}`,
+      );
+    });
+    return `${lines.join('\n')}\n`;
+  }
+
+  onEnd(result: FullResult): void {
+    // Nothing ran (interrupted, or only listed with --list): keep the last matrix
+    if (result.status === 'interrupted' || this.endedTests === 0) {
+      return;
+    }
+    const matrix = this.buildMatrix();
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outputDir, 'matrix.json'),
+      `${JSON.stringify(matrix, null, 2)}\n`,
+    );
+    fs.writeFileSync(
+      path.join(this.outputDir, 'matrix.md'),
+      this.toMarkdown(matrix),
+    );
+
+    if (matrix.uncovered.length > 0) {
+      console.log(
+        `\nRequirements without tests: ${matrix.uncovered.join(', ')}`,
+      );
+    }
+    if (matrix.possiblyFixed.length > 0) {
+      console.log(
+        `Possibly fixed (linked tests passed): ${matrix.possiblyFixed.join(', ')}. ` +
+          'Verify and set their status in data/defects.json.',
+      );
+    }
+    if (matrix.unknownRequirements.length > 0) {
+      console.log(
+        `Unknown requirement IDs in annotations: ${matrix.unknownRequirements.join(', ')}`,
+      );
+    }
+    console.log(
+      `Traceability matrix written to ${path.relative(process.cwd(), this.outputDir)}`,
+    );
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default TraceabilityReporter;
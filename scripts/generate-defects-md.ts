@@ -0,0 +1,121 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  type JSONReport,
+  type JSONReportSuite,
+} from '@playwright/test/reporter';
+
+import { type Defect } from '../utils/dataSchemas';
+import { getDefect, getDefects } from '../utils/defects';
+import { DEFECT_ANNOTATION } from '../utils/traceability';
+
+/**
+ * Generates docs/DEFECTS.md from the defect registry (data/defects.json).
+ * The tests of each defect are the ones annotated with `relatesTo()`, collected with
+ * `playwright test --list`, so the list always matches the real test titles.
+ *
+ * Usage: npm run defects:generate
+ */
+const ROOT_DIR = path.resolve(__dirname, '..');
+const OUTPUT_PATH = path.join(ROOT_DIR, 'docs', 'DEFECTS.md');
+
+/** Test titles per defect ID: `<spec file> › <describe> › <test>` */
+export type LinkedTests = Map<string, string[]>;
+
+function collectFromSuite(
+  suite: JSONReportSuite,
+  titlePath: string[],
+  linked: Map<string, Set<string>>,
+): void {
+  suite.specs.forEach((spec) => {
+    const title = [...titlePath, spec.title].join(' › ');
+    spec.tests
+      .flatMap((test) => test.annotations)
+      .filter((annotation) => annotation.type === DEFECT_ANNOTATION)
+      .forEach((annotation) => {
+        // Throws on IDs missing from the registry
+        const { id } = getDefect(annotation.description ?? '');
+        linked.set(id, (linked.get(id) ?? new Set()).add(title));
+      });
+  });
+  suite.suites?.forEach((child) =>
+    collectFromSuite(child, [...titlePath, child.title], linked),
+  );
+}
+
+/**
+ * Lists the tests linked to each defect through `relatesTo()` annotations.
+ * Every browser project lists the same tests, so titles are deduplicated.
+ */
+export function collectLinkedTests(): LinkedTests {
+  const output = execFileSync(
+    'npx',
+    ['playwright', 'test', '--list', '--reporter=json'],
+    { cwd: ROOT_DIR, encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 },
+  );
+  const report = JSON.parse(output) as JSONReport;
+  const linked = new Map<string, Set<string>>();
+  report.suites.forEach((suite) => {
+    const file = path
+      .relative(ROOT_DIR, path.join(report.config.rootDir, suite.file))
+      .split(path.sep)
+      .join('/');
+    collectFromSuite(suite, [file], linked);
+  });
+  return new Map([...linked].map(([id, titles]) => [id, [...titles].sort()]));
+}
+
+const STATUS_LABELS: Record<Defect['status'], string> = {
+  open: 'Open',
+  fixed: 'Fixed',
+  'wont-fix': 'Won\'t fix',
+};
+
+function renderDefect(defect: Defect, tests: string[]): string {
+  const lines = [
+    `### ${defect.id}: ${defect.title}`,
+    `**Severity:** ${defect.severity}  `,
+    `**Status:** ${STATUS_LABELS[defect.status]}  `,
+    `**Description:** ${defect.description}  `,
+    `**Expected Behaviour:** ${defect.expected}  `,
+    `**Actual Behaviour:** ${defect.actual}`,
+  ];
+  if (tests.length > 0) {
+    lines.push('', '**Tests:**');
+    lines.push(...tests.map((test) => `- ${test}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderDefectsMarkdown(
+  defects: Defect[],
+  linkedTests: LinkedTests,
+): string {
+  const render = (defect: Defect) =>
+    `${renderDefect(defect, linkedTests.get(defect.id) ?? [])}\n`;
+  const open = defects.filter((defect) => defect.status === 'open');
+  const closed = defects.filter((defect) => defect.status !== 'open');
+  const sections = [
+    '<!-- Generated from data/defects.json by `npm run defects:generate`. Do not edit by hand. -->',
+    '',
+    'I ran the automated tests and found several issues. When tests fail, it usually means something\'s broken in the app. Here are the bugs I found:',
+    '',
+    '## Bugs Found During Testing',
+    '',
+    ...open.map(render),
+  ];
+  if (closed.length > 0) {
+    sections.push('## Closed Defects', '', ...closed.map(render));
+  }
+  return `${sections.join('\n').trimEnd()}\n`;
+}
+
+if (require.main === module) {
+  fs.writeFileSync(
+    OUTPUT_PATH,
+    renderDefectsMarkdown(getDefects(), collectLinkedTests()),
+  );
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
@@ -0,0 +1,52 @@
+import { spawnSync } from 'child_process';
+
+import {
+  EnvironmentConfigError,
+  loadEnvironment,
+} from '../config/environments';
+
+/**
+ * Runs Playwright with an environment profile picked by a CLI flag.
+ * Playwright rejects unknown flags, so `--env` is consumed here and passed on as TEST_ENV.
+ *
+ * Usage: npm run test:env -- --env staging [playwright args...]
+ */
+function extractEnvFlag(args: string[]): {
+  envName?: string;
+  rest: string[];
+} {
+  const rest: string[] = [];
+  let envName: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--env') {
+      envName = args[++i];
+    } else if (arg.startsWith('--env=')) {
+      envName = arg.slice('--env='.length);
+    } else {
+      rest.push(arg);
+    }
+  }
+  return { envName, rest };
+}
+
+const { envName, rest } = extractEnvFlag(process.argv.slice(2));
+const env = { ...process.env, ...(envName ? { TEST_ENV: envName } : {}) };
+
+try {
+  const profile = loadEnvironment(env);
+  console.log(`Running against "${profile.name}" (${profile.baseURL})`);
+} catch (error) {
+  if (error instanceof EnvironmentConfigError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const result = spawnSync('npx', ['playwright', 'test', ...rest], {
+  env,
+  stdio: 'inherit',
+  shell: process.platform === 'win32',
+});
+process.exit(result.status ?? 1);
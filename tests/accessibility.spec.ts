@@ -0,0 +1,77 @@
+import { test, expect } from '../fixtures';
+import { auditAccessibility } from '../utils/accessibility';
+
+/**
+ * Accessibility Audit Tests
+ *
+ * Runs the local rules engine (utils/accessibility.ts) against the whole page and
+ * against each component. Known issues in data/accessibility.json are reported
+ * in the attached JSON report but do not fail the tests.
+ */
+test.describe('Accessibility Audit', { tag: '@a11y' }, () => {
+  test('should have no accessibility violations on the landing page', async ({
+    homePage,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
+    // Assert
+    await homePage.expectAccessible();
+  });
+
+  test('should label the zip, email and phone inputs', async ({ form }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
+    // Assert
+    await form.expectAccessible();
+  });
+
+  test('should link shown validation errors to their inputs', async ({
+    form,
+  }) => {
+    // Arrange & Act - Trigger the zip validation error
+    await form.fillForm({ zip: '' });
+    await form.expectFieldError('zip', 'empty');
+
+    // Assert - The error block is referenced with aria-describedby
+    await form.expectAccessible();
+  });
+
+  test('should name the slider buttons and describe its images', async ({
+    slider,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
+    // Assert
+    await slider.expectAccessible();
+  });
+
+  test('should name the reviews controls and describe gallery images', async ({
+    reviews,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
+    // Assert
+    await reviews.expectAccessible();
+  });
+
+  test('should have no accessibility violations in the location section', async ({
+    location,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
+    // Assert
+    await location.expectAccessible();
+  });
+
+  test('should report generic slider alt texts as baselined', async ({
+    page,
+    slider,
+  }) => {
+    // Arrange
+    await slider.expectSliderVisible();
+
+    // Act
+    const report = await auditAccessibility(page, { rules: ['image-alt'] });
+
+    // Assert - Known issues stay visible in the report without failing the audit
+    const baselinedAltTexts = report.baselined.map(
+      (violation) => violation.html,
+    );
+    expect(baselinedAltTexts.join('\n')).toContain('alt="slider-img"');
+  });
+});
@@ -0,0 +1,34 @@
+import { test, expect } from '../fixtures';
+import { assetGuardFor } from '../utils/assetGuard';
+
+/**
+ * Asset Guard Tests
+ *
+ * The asset guard runs on every test (fixtures/index.ts); these tests check that it
+ * sees broken images and keeps failures the test provoked out of the failures.
+ */
+test.describe('Asset Guard', () => {
+  const imageUrls = /\.(avif|gif|jpe?g|png|webp)(\?.*)?$/i;
+
+  test('should record images that fail to load', async ({ page, homePage }) => {
+    // Arrange - Answer every image with a 404 and mark the failures as provoked
+    const guard = assetGuardFor(page);
+    guard.expectFailure(imageUrls, 'Images stubbed with 404');
+    await page.route(imageUrls, (route) =>
+      route.fulfill({ status: 404, body: '' }),
+    );
+
+    // Act - Reload so the images are requested again
+    await homePage.goto('/');
+
+    // Assert - The broken images are recorded, but as expected issues
+    const report = guard.evaluate();
+    expect(
+      report.expected.filter((issue) => issue.kind === 'image').length,
+    ).toBeGreaterThan(0);
+    expect(
+      report.expected.filter((issue) => issue.kind === 'request').length,
+    ).toBeGreaterThan(0);
+    expect(report.failures).toEqual([]);
+  });
+});
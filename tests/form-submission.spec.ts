@@ -0,0 +1,81 @@
+import { test, expect } from '../fixtures';
+import { type SubmissionStub } from '../utils/submissionInterceptor';
+import { expectedErrorKind, generateInputs } from '../utils/inputGenerators';
+import { validFormData } from '../utils/testData';
+
+/**
+ * Form Submission Tests - Request Payload and Server Responses
+ *
+ * Submission requests are intercepted with page.route: the payload sent to the
+ * backend is asserted, and success / error responses are stubbed so no real lead
+ * is created.
+ */
+test.describe('Form Submission - Lead Request', { tag: '@submission' }, () => {
+  test('should send the entered zip code and email to the backend', async ({
+    form,
+  }) => {
+    // Arrange
+    await form.interceptSubmissions({ stub: 'success' });
+    const data = { zip: validFormData.zip, email: validFormData.email };
+
+    // Act
+    await form.fillForm(data);
+
+    // Assert
+    await form.expectSubmittedPayload(data);
+  });
+
+  test('should not send a request when the zip code is invalid', async ({
+    form,
+  }) => {
+    // Arrange
+    await form.interceptSubmissions({ stub: 'success' });
+    const [invalidZip] = generateInputs('zip', 'invalid', { count: 1 });
+
+    // Act
+    await form.fillForm({ zip: invalidZip.value });
+
+    // Assert
+    await form.expectFieldError('zip', expectedErrorKind(invalidZip.value));
+    await form.expectNothingSubmitted();
+  });
+
+  test('should show a success state after a successful response', async ({
+    form,
+  }) => {
+    // Arrange
+    await form.interceptSubmissions({ stub: 'success' });
+
+    // Act
+    await form.fillForm({
+      zip: validFormData.zip,
+      email: validFormData.email,
+    });
+
+    // Assert - Redirected or inline (DEFECT-004), but never nothing
+    expect(await form.waitForSubmissionOutcome()).not.toBe('none');
+  });
+
+  const failedResponses: SubmissionStub[] = [
+    'clientError',
+    'serverError',
+    'timeout',
+  ];
+  failedResponses.forEach((stub) => {
+    test(`should not confirm the submission on ${stub} response`, async ({
+      form,
+    }) => {
+      // Arrange
+      await form.interceptSubmissions({ stub });
+
+      // Act
+      await form.fillForm({
+        zip: validFormData.zip,
+        email: validFormData.email,
+      });
+
+      // Assert - User is not told the lead was received
+      await form.expectSubmissionNotConfirmed();
+    });
+  });
+});
@@ -1,11 +1,11 @@
-import { test, expect } from '@playwright/test';
-
+import { test, expect } from '../fixtures';
 import { FormComponent } from '../pages/components/FormComponent';
+import { checkProperty, expectedErrorKind } from '../utils/inputGenerators';
+import { covers, relatesTo } from '../utils/traceability';
 import {
+  formInstanceIndexes,
+  inputExamples,
   validFormData,
-  invalidEmailFormats,
-  invalidZipCodes,
-  invalidPhoneNumbers,
 } from '../utils/testData';
 
 /**
@@ -15,178 +15,442 @@ import {
  * behavior of the page. If tests fail, it indicates a defect where the
  * implementation doesn't match the requirements.
  *
- * REQUIREMENTS:
+ * REQUIREMENTS (IDs REQ-1..REQ-5 in data/requirements.json, linked with covers()):
  * 1. All fields are required - validation errors should be shown for all fields when empty
  * 2. Zip code: must contain exactly 5 digits
  * 3. Email: must match a valid email pattern (e.g., user@example.com)
  * 4. Phone number: must contain exactly 10 digits
  * 5. After successful submission, user must be redirected to "Thank you" page
+ *
+ * Field values are generated from these rules (utils/inputGenerators.ts) with a
+ * reproducible seed; set INPUT_SEED to replay a failing run.
+ *
+ * The page renders the quiz form more than once (DEFECT-006), so every scenario
+ * runs against each form instance.
  */
-test.describe('Form Validation - Requirement-Based Tests', () => {
-  let form: FormComponent;
+test.describe('Form Instances', () => {
+  test(
+    'should render a single quiz form on the page',
+    { annotation: relatesTo('DEFECT-006') },
+    async ({ page, form }) => {
+      // REQUIREMENT: Only one form is shown (DEFECT-006)
+      // Arrange - The form fixture has loaded the landing page
+      await expect(form.zipInputLocator).toBeAttached();
 
-  test.beforeEach(async ({ page }) => {
-    await page.goto('/');
-    form = new FormComponent(page);
-  });
+      // Assert - Failure message lists where each instance sits in the DOM
+      await FormComponent.expectInstanceCount(page, 1);
+    },
+  );
 
-  // ============================================
-  // Requirement 1: All fields are required
-  // ============================================
-
-  // ============================================
-  // Requirement 2: Zip code must contain exactly 5 digits
-  // ============================================
-  test.describe('Zip Code Validation - Must Contain Exactly 5 Digits', () => {
-    invalidZipCodes.forEach((invalidZip) => {
-      const testName = `should reject zip code: ${invalidZip || 'empty'}`;
-      test(testName, async () => {
-        // REQUIREMENT: Zip code must contain exactly 5 digits
-        // Arrange
-        const invalidFormData = {
-          zip: invalidZip,
-        };
+  test('should locate every form instance', async ({
+    page,
+    form,
+    interactionMode,
+  }) => {
+    // Arrange - The form fixture has loaded the landing page
+    await expect(form.zipInputLocator).toBeAttached();
 
-        // Act
-        await form.fillForm(invalidFormData);
+    // Act
+    const forms = await FormComponent.all(
+      page,
+      FormComponent.DEFAULT_SELECTOR,
+      interactionMode,
+    );
+    const instances = await FormComponent.describeInstances(page);
 
-        // Assert - Should show validation error
-        await form.expectValidationError('zip');
-        await expect(form.emailInputLocator).toBeHidden();
-      });
-    });
+    // Assert - One component per instance, each pointing at a rendered form
+    expect(forms).toHaveLength(instances.length);
+    for (const form of forms) {
+      await expect(form.zipInputLocator).toBeAttached();
+    }
+  });
 
-    test('should accept zip code with exactly 5 digits', async () => {
-      // REQUIREMENT: Zip code with exactly 5 digits should be valid
-      // Arrange - Valid 5-digit zip
-      const validZipData = {
-        zip: validFormData.zip,
-      };
+  test('should run the validation tests against every form instance', async ({
+    page,
+    form,
+  }) => {
+    // Arrange - The form fixture has loaded the landing page
+    await expect(form.zipInputLocator).toBeAttached();
 
-      // Act
-      await form.fillForm(validZipData);
-      await form.emailInputLocator.waitFor({ state: 'visible' });
+    // The per-instance describes below are built from data/form.json before the page loads
+    const instances = await FormComponent.describeInstances(page);
 
-      // Assert - Should not show zip validation error (email input is visible, meaning zip was accepted)
-      // Explicit assertion for Playwright static analysis
-      await expect(form.emailInputLocator).toBeVisible();
-    });
+    // Assert - An instance missing from the data would go untested
+    expect(
+      instances.map((instance) => instance.index),
+      `formInstanceIndexes in data/form.json is out of date with the page:\n${instances
+        .map((instance) => `  #${instance.index} ${instance.domPath}`)
+        .join('\n')}`,
+    ).toEqual(formInstanceIndexes);
   });
+});
 
-  // ============================================
-  // Requirement 3: Email must match valid email pattern
-  // ============================================
-  test.describe('Email Format Validation - Must Match Valid Email Pattern', () => {
-    invalidEmailFormats.forEach((invalidEmail) => {
-      const testName = `should reject invalid email format: ${invalidEmail || 'empty'}`;
-      test(testName, async () => {
-        // REQUIREMENT: Email must match valid email pattern
-        // Arrange
-        const invalidFormData = {
-          zip: validFormData.zip,
-          email: invalidEmail,
-        };
+formInstanceIndexes.forEach((formIndex) => {
+  test.describe(`Form Validation - Requirement-Based Tests (form #${formIndex + 1})`, () => {
+    test.use({ formIndex });
 
-        // Act
-        await form.fillForm(invalidFormData);
+    // ============================================
+    // Requirement 1: All fields are required
+    // ============================================
+    test.describe(
+      'Required Fields - Validation Errors for Empty Fields',
+      { annotation: covers('REQ-1') },
+      () => {
+        test('should not show validation errors before any input', async ({
+          form,
+        }) => {
+          // Assert - A fresh form shows no error messages
+          await form.expectNoFieldErrors();
+        });
 
-        // Assert - Should show validation error
-        await form.expectValidationError('email');
-        await expect(form.phoneInputLocator).toBeHidden();
-      });
-    });
+        test('should require the zip code', async ({ form }) => {
+          // REQUIREMENT: All fields are required
+          // Act - Advance with an empty zip code
+          await form.fillForm({ zip: '' });
 
-    test('should accept valid email format', async () => {
-      // REQUIREMENT: Valid email format should be accepted
-      // Arrange - Valid email
-      const validEmailData = {
-        zip: validFormData.zip,
-        email: 'user@example.com',
-      };
-
-      // Act
-      await form.fillForm(validEmailData);
-
-      // Assert - Should not show email validation error
-      const hasError = await form.errorMessagesLocator
-        .filter({ hasText: /email|wrong/i })
-        .isVisible()
-        .catch(() => false);
-      expect(hasError).toBeFalsy();
-
-      // Explicit assertion for Playwright static analysis
-      //await expect(form.phoneInput).toBeVisible();
-    });
-  });
+          // Assert - The empty message, not the invalid one, and no next step
+          await form.expectFieldError('zip', 'empty');
+          await expect(form.emailInputLocator).toBeHidden();
+        });
+
+        test('should require the email address', async ({ form }) => {
+          // REQUIREMENT: All fields are required
+          // Act - Valid zip code, then advance with an empty email
+          await form.fillForm({ zip: validFormData.zip, email: '' });
+
+          // Assert
+          await form.expectFieldError('email', 'empty');
+          await expect(form.phoneInputLocator).toBeHidden();
+        });
+
+        test(
+          'should require the phone number',
+          { tag: '@submission', annotation: relatesTo('DEFECT-003') },
+          async ({ form }) => {
+            // REQUIREMENT: All fields are required
+            // Act - Valid zip code and email, then advance with an empty phone number
+            // (no submission outcome to wait for: the error shows on the phone step)
+            await form.fillForm({ ...validFormData, phone: '' });
+            await form.advance();
+
+            // Assert
+            await form.expectFieldError('phone', 'empty');
+          },
+        );
+
+        test('should tell a wrong zip code apart from a missing one', async ({
+          form,
+        }) => {
+          // Arrange - A wrong, non-empty zip code (e.g. "1234")
+          const [invalidZip] = inputExamples.zip.invalid;
+
+          // Act
+          await form.fillForm({ zip: invalidZip });
+
+          // Assert - Only the invalid message is shown for the zip code
+          await form.expectFieldError('zip', 'invalid');
+        });
+      },
+    );
+
+    // ============================================
+    // Requirement 2: Zip code must contain exactly 5 digits
+    // ============================================
+    test.describe(
+      'Zip Code Validation - Must Contain Exactly 5 Digits',
+      { annotation: covers('REQ-2') },
+      () => {
+        test('should reject generated invalid zip codes', async ({
+          homePage,
+          form,
+        }) => {
+          // REQUIREMENT: Zip code must contain exactly 5 digits
+          test.slow();
+          await checkProperty(
+            'zip',
+            'invalid',
+            async (zip) => {
+              // Arrange - Fresh form for every generated value
+              await homePage.goto('/');
+
+              // Act
+              await form.fillForm({ zip });
+
+              // Assert - Should show validation error
+              await form.expectFieldError('zip', expectedErrorKind(zip));
+              await expect(form.emailInputLocator).toBeHidden();
+            },
+            { examples: inputExamples.zip.invalid },
+          );
+        });
+
+        test('should accept generated zip codes with exactly 5 digits', async ({
+          homePage,
+          form,
+        }) => {
+          // REQUIREMENT: Zip code with exactly 5 digits should be valid (leading zeros included)
+          test.slow();
+          await checkProperty(
+            'zip',
+            'valid',
+            async (zip) => {
+              // Arrange
+              await homePage.goto('/');
+
+              // Act
+              await form.fillForm({ zip });
+
+              // Assert - Email input is visible, meaning zip was accepted
+              await expect(form.emailInputLocator).toBeVisible();
+            },
+            { count: 4, examples: inputExamples.zip.valid },
+          );
+        });
+      },
+    );
 
-  // ============================================
-  // Requirement 4: Phone number must contain exactly 10 digits
-  // ============================================
-  test.describe('Phone Number Validation - Must Contain Exactly 10 Digits', () => {
-    invalidPhoneNumbers.forEach((invalidPhone) => {
-      const testName = `should reject phone number: ${invalidPhone || 'empty'}`;
-      test(testName, async ({ page }) => {
-        // REQUIREMENT: Phone number must contain exactly 10 digits
-        // Arrange
-        const invalidFormData = {
-          ...validFormData,
-          phone: invalidPhone,
-        };
+    // ============================================
+    // Requirement 3: Email must match valid email pattern
+    // ============================================
+    test.describe(
+      'Email Format Validation - Must Match Valid Email Pattern',
+      { annotation: covers('REQ-3') },
+      () => {
+        test('should reject generated invalid email formats', async ({
+          homePage,
+          form,
+        }) => {
+          // REQUIREMENT: Email must match valid email pattern
+          test.slow();
+          await checkProperty(
+            'email',
+            'invalid',
+            async (email) => {
+              // Arrange
+              await homePage.goto('/');
+
+              // Act
+              await form.fillForm({ zip: validFormData.zip, email });
+
+              // Assert - Should show validation error
+              await form.expectFieldError('email', expectedErrorKind(email));
+              await expect(form.phoneInputLocator).toBeHidden();
+            },
+            { examples: inputExamples.email.invalid },
+          );
+        });
+
+        test(
+          'should accept generated valid email formats',
+          { tag: '@submission' },
+          async ({ homePage, form }) => {
+            // REQUIREMENT: Valid email format should be accepted
+            test.slow();
+            await checkProperty(
+              'email',
+              'valid',
+              async (email) => {
+                // Arrange
+                await homePage.goto('/');
+
+                // Act
+                await form.fillForm({ zip: validFormData.zip, email });
+
+                // Assert - Should not show email validation error
+                await expect(
+                  form.errorMessagesLocator.filter({ hasText: /email|wrong/i }),
+                ).toBeHidden();
+              },
+              { count: 3, examples: inputExamples.email.valid },
+            );
+          },
+        );
+      },
+    );
+
+    // ============================================
+    // Requirement 4: Phone number must contain exactly 10 digits
+    // ============================================
+    test.describe(
+      'Phone Number Validation - Must Contain Exactly 10 Digits',
+      {
+        tag: '@submission',
+        annotation: [...covers('REQ-4'), ...relatesTo('DEFECT-003')],
+      },
+      () => {
+        test('should reject generated invalid phone numbers', async ({
+          homePage,
+          form,
+          page,
+        }) => {
+          // REQUIREMENT: Phone number must contain exactly 10 digits
+          test.slow();
+          await checkProperty(
+            'phone',
+            'invalid',
+            async (phone) => {
+              // Arrange
+              await homePage.goto('/');
+
+              // Act - Press Next on the phone step; a rejected value never submits,
+              // so waiting for a submission outcome would only burn its timeout
+              await form.fillForm({ ...validFormData, phone });
+              await form.advance();
+
+              // Assert - Should show validation error
+              await form.expectFieldError('phone', expectedErrorKind(phone));
+              await expect(page).not.toHaveURL(/thank/i);
+            },
+            { examples: inputExamples.phone.invalid },
+          );
+        });
+
+        test('should accept generated phone numbers with exactly 10 digits', async ({
+          homePage,
+          form,
+        }) => {
+          // REQUIREMENT: Phone number with exactly 10 digits should be valid
+          test.slow();
+          await checkProperty(
+            'phone',
+            'valid',
+            async (phone) => {
+              // Arrange
+              await homePage.goto('/');
+
+              // Act
+              await form.fillAndSubmit({ ...validFormData, phone });
+
+              // Assert - Should not show phone validation error
+              await expect(
+                form.errorMessagesLocator.filter({ hasText: /phone/i }),
+              ).toBeHidden();
+              await form.expectThankYouRedirect();
+            },
+            { count: 3, examples: inputExamples.phone.valid },
+          );
+        });
+      },
+    );
+
+    // ============================================
+    // Requirement 5: Successful submission redirects to "Thank you" page
+    // ============================================
+    test.describe(
+      'Successful Submission - Redirect to Thank You Page',
+      {
+        tag: '@submission',
+        annotation: [...covers('REQ-5'), ...relatesTo('DEFECT-004')],
+      },
+      () => {
+        test('should redirect to thank you page after successful submission with all valid data', async ({
+          form,
+          page,
+        }) => {
+          // REQUIREMENT: After successful submission, user must be redirected to "Thank you" page
+          // Arrange - All valid required fields
+          const validData = {
+            zip: validFormData.zip,
+            email: validFormData.email,
+            phone: validFormData.phone,
+          };
+
+          // Act
+          await form.fillAndSubmit(validData);
+
+          // Assert - Must redirect to thank you page
+          await form.expectThankYouRedirect();
+          // Explicit assertion for Playwright static analysis
+          await expect(page).toHaveURL(/thank/i);
+        });
+
+        test('should confirm the submission on the thank you page', async ({
+          form,
+          thankYouPage,
+        }) => {
+          // Act
+          await form.fillAndSubmit(validFormData);
+
+          // Assert - Separate page with the confirmation copy
+          await thankYouPage.expectLoaded();
+          await thankYouPage.expectConfirmationCopy();
+        });
+
+        test('should not resubmit the lead when going back from the thank you page', async ({
+          form,
+          thankYouPage,
+        }) => {
+          // Arrange
+          await form.fillAndSubmit(validFormData);
+
+          // Act & Assert - Back navigation sends no submission request again
+          await thankYouPage.expectBackNavigationDoesNotResubmit();
+        });
+      },
+    );
+
+    // ============================================
+    // Quiz Step Model - Progress Indicator and Navigation
+    // ============================================
+    test.describe('Quiz Steps - Progress Indicator and Navigation', () => {
+      test('should start on the zip code step', async ({ form }) => {
+        // Assert - First visible step asks for the zip code
+        await form.expectCurrentStep('zip');
+        const step = await form.getCurrentStep();
+        expect(step.number).toBe(1);
+      });
+
+      test('should return to the zip code step when going back', async ({
+        form,
+      }) => {
+        // Arrange - Leave the zip step with a valid zip code
+        await form.fillForm({ zip: validFormData.zip });
+        await form.emailInputLocator.waitFor({ state: 'visible' });
 
         // Act
-        await form.fillAndSubmit(invalidFormData);
+        await form.back();
 
-        // Assert - Should show validation error
-        await form.expectValidationError('phone');
-        // Explicit assertion for Playwright static analysis
-        await expect(page).not.toHaveURL(/thank/i);
+        // Assert
+        await form.expectCurrentStep('zip');
       });
-    });
 
-    test('should accept phone number with exactly 10 digits', async () => {
-      // REQUIREMENT: Phone number with exactly 10 digits should be valid
-      // Arrange - Valid 10-digit phone
-      const validPhoneData = {
-        ...validFormData,
-        phone: '1234567890',
-      };
-
-      // Act
-      await form.fillAndSubmit(validPhoneData);
-
-      // Assert - Should not show phone validation error
-      const hasError = await form.errorMessagesLocator
-        .filter({ hasText: /phone/i })
-        .isVisible()
-        .catch(() => false);
-      expect(hasError).toBeFalsy();
-
-      await form.expectThankYouRedirect();
-    });
-  });
+      test(
+        'should show the total number of steps in the progress indicator',
+        { annotation: relatesTo('DEFECT-001') },
+        async ({ form }) => {
+          // REQUIREMENT: Progress reads "N of M" (DEFECT-001)
+          await form.expectProgressShowsTotal();
+        },
+      );
 
-  // ============================================
-  // Requirement 5: Successful submission redirects to "Thank you" page
-  // ============================================
-  test.describe('Successful Submission - Redirect to Thank You Page', () => {
-    test('should redirect to thank you page after successful submission with all valid data', async ({
-      page,
-    }) => {
-      // REQUIREMENT: After successful submission, user must be redirected to "Thank you" page
-      // Arrange - All valid required fields
-      const validData = {
-        zip: validFormData.zip,
-        email: validFormData.email,
-        phone: validFormData.phone,
-      };
-
-      // Act
-      await form.fillAndSubmit(validData);
-
-      // Assert - Must redirect to thank you page
-      await form.expectThankYouRedirect();
-      // Explicit assertion for Playwright static analysis
-      await expect(page).toHaveURL(/thank/i);
+      test(
+        'should offer Next instead of Submit on the email step',
+        { annotation: relatesTo('DEFECT-002', 'DEFECT-003') },
+        async ({ form }) => {
+          // REQUIREMENT: Phone step follows email, so email is not the last step (DEFECT-002)
+          // Act
+          await form.goToStep('email', { zip: validFormData.zip });
+
+          // Assert
+          await form.expectAdvanceButtonLabel('Next');
+        },
+      );
+
+      test(
+        'should fill the progress bar once the form is complete',
+        { tag: '@submission', annotation: relatesTo('DEFECT-005') },
+        async ({ form }) => {
+          // REQUIREMENT: Completed form shows a full progress bar (DEFECT-005)
+          // Act
+          await form.fillForm({
+            zip: validFormData.zip,
+            email: validFormData.email,
+          });
+
+          // Assert
+          await form.expectProgressBarComplete();
+        },
+      );
     });
   });
 });
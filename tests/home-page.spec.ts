@@ -1,7 +1,6 @@
-import { test, expect } from '@playwright/test';
-
-import { HomePage } from '../pages/HomePage';
-import { validFormData } from '../utils/testData';
+import { test, expect } from '../fixtures';
+import { reviewsData, validFormData } from '../utils/testData';
+import { relatesTo } from '../utils/traceability';
 
 /**
  * Home Page E2E Integration Tests
@@ -11,18 +10,11 @@ import { validFormData } from '../utils/testData';
  * Demonstrates the composition pattern for component-based POM.
  */
 test.describe('Home Page - E2E Integration Tests', () => {
-  let homePage: HomePage;
-
-  test.beforeEach(async ({ page }) => {
-    homePage = new HomePage(page);
-    await homePage.goto('/');
-  });
-
   // ============================================
   // Page Initialization Tests
   // ============================================
 
-  test('should load home page successfully', async () => {
+  test('should load home page successfully', async ({ homePage }) => {
     // Assert - Page loaded with all components visible
     await expect(homePage.location.locationContainerLocator).toBeVisible();
     await homePage.slider.expectSliderVisible();
@@ -32,8 +24,10 @@ test.describe('Home Page - E2E Integration Tests', () => {
   // Location Component Tests
   // ============================================
 
-  test('should display location container with "Available in" text', async () => {
-    // Arrange & Act - Page is already loaded in beforeEach
+  test('should display location container with "Available in" text', async ({
+    homePage,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
     // Assert - Location container should be visible
     await expect(homePage.location.locationContainerLocator).toBeVisible();
     await expect(homePage.location.locationContainerLocator).toContainText(
@@ -41,8 +35,10 @@ test.describe('Home Page - E2E Integration Tests', () => {
     );
   });
 
-  test('should detect and display the city name dynamically', async () => {
-    // Arrange & Act - Page is already loaded in beforeEach
+  test('should detect and display the city name dynamically', async ({
+    homePage,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
     // Act - Dynamically detect the city name from the page
     const detectedCity =
       await homePage.location.expectLocationDetectedAndDisplayed();
@@ -55,8 +51,10 @@ test.describe('Home Page - E2E Integration Tests', () => {
     console.log(`Detected city: ${detectedCity}`);
   });
 
-  test('should verify detected city is correctly displayed in location selector', async () => {
-    // Arrange & Act - Page is already loaded in beforeEach
+  test('should verify detected city is correctly displayed in location selector', async ({
+    homePage,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
     // Detect the city name from the page
     const detectedCity = await homePage.location.getDetectedCity();
 
@@ -73,8 +71,10 @@ test.describe('Home Page - E2E Integration Tests', () => {
     expect(containerText).toContain(detectedCity);
   });
 
-  test('should have correct location structure with data attributes', async () => {
-    // Arrange & Act - Page is already loaded in beforeEach
+  test('should have correct location structure with data attributes', async ({
+    homePage,
+  }) => {
+    // Arrange & Act - Page is already loaded by the homePage fixture
     // Assert - Location city should have the correct data attribute and class
     await expect(homePage.location.locationCityLocator).toBeVisible();
     await expect(homePage.location.locationCityLocator).toHaveAttribute(
@@ -94,7 +94,9 @@ test.describe('Home Page - E2E Integration Tests', () => {
   // Component Integration Tests
   // ============================================
 
-  test('should allow concurrent interactions with slider and location', async () => {
+  test('should allow concurrent interactions with slider and location', async ({
+    homePage,
+  }) => {
     // Act - Interact with slider
     await homePage.slider.clickNext();
     await homePage.slider.expectSlidersSynchronized();
@@ -111,28 +113,32 @@ test.describe('Home Page - E2E Integration Tests', () => {
   // Complete User Flow Tests
   // ============================================
 
-  test('should complete full user journey: view slider and submit form', async ({
-    page,
-  }) => {
-    // Arrange - Page loaded with components
-    await homePage.slider.expectSliderVisible();
-    await homePage.location.locationContainerLocator.waitFor({
-      state: 'visible',
-    });
+  test(
+    'should complete full user journey: view slider and submit form',
+    { tag: '@submission', annotation: relatesTo('DEFECT-003', 'DEFECT-004') },
+    async ({ homePage, page }) => {
+      // Arrange - Page loaded with components
+      await homePage.slider.expectSliderVisible();
+      await homePage.location.locationContainerLocator.waitFor({
+        state: 'visible',
+      });
 
-    // Act - User interacts with slider
-    await homePage.slider.clickNext();
-    await homePage.slider.expectSlidersSynchronized();
+      // Act - User interacts with slider
+      await homePage.slider.clickNext();
+      await homePage.slider.expectSlidersSynchronized();
 
-    // Act - User fills and submits form
-    await homePage.form.fillAndSubmit(validFormData);
+      // Act - User fills and submits form
+      await homePage.form.fillAndSubmit(validFormData);
 
-    // Assert - Form submission successful
-    await homePage.form.expectThankYouRedirect();
-    await expect(page).toHaveURL(/thank/i);
-  });
+      // Assert - Form submission successful
+      await homePage.form.expectThankYouRedirect();
+      await expect(page).toHaveURL(/thank/i);
+    },
+  );
 
-  test('should navigate slider multiple times and then fill form', async () => {
+  test('should navigate slider multiple times and then fill form', async ({
+    homePage,
+  }) => {
     // Act - Navigate slider multiple times
     await homePage.slider.clickNext();
     await homePage.slider.clickNext();
@@ -154,13 +160,17 @@ test.describe('Home Page - E2E Integration Tests', () => {
   // ============================================
 
   test.describe('Reviews Component', () => {
-    test('should display reviews section with "Show more" button by default', async () => {
+    test('should display reviews section with "Show more" button by default', async ({
+      homePage,
+    }) => {
       // Assert - Reviews section should be visible and in collapsed state
       await homePage.reviews.expectReviewsVisible();
       await homePage.reviews.expectCollapsed();
     });
 
-    test('should toggle reviews between expanded and collapsed states', async () => {
+    test('should toggle reviews between expanded and collapsed states', async ({
+      homePage,
+    }) => {
       // Arrange - Verify initial collapsed state
       await homePage.reviews.expectCollapsed();
 
@@ -177,17 +187,66 @@ test.describe('Home Page - E2E Integration Tests', () => {
       await homePage.reviews.expectCollapsed();
     });
 
+    test.describe('Review Content', () => {
+      const { content } = reviewsData;
+
+      test('should list the expected number of reviews', async ({
+        homePage,
+      }) => {
+        // Act & Assert - Dropped reviews fail this test
+        await homePage.reviews.expectReviewCount(content.minReviews);
+      });
+
+      test('should give every review an author, text and a valid rating', async ({
+        homePage,
+      }) => {
+        // Act & Assert
+        await homePage.reviews.expectNoEmptyReviews();
+        await homePage.reviews.expectRatingsInRange(
+          content.rating.min,
+          content.rating.max,
+        );
+      });
+
+      test('should show the extra reviews once expanded', async ({
+        homePage,
+      }) => {
+        // Act & Assert
+        await homePage.reviews.expectExtraReviewsShownWhenExpanded(
+          content.minExtraReviews,
+        );
+      });
+
+      test('should parse the photos attached to reviews', async ({
+        homePage,
+      }) => {
+        // Act
+        const reviews = await homePage.reviews.getReviews();
+        const photoCount = reviews.flatMap((review) => review.images).length;
+
+        // Assert - Every gallery thumbnail belongs to a review
+        expect(photoCount).toBeGreaterThanOrEqual(reviewsData.minGalleryImages);
+        expect(photoCount).toBe(
+          await homePage.reviews.reviewImagesLocator.count(),
+        );
+      });
+    });
+
     test.describe('Review Image Gallery', () => {
-      test('should detect reviews with image galleries', async () => {
+      test('should detect reviews with image galleries', async ({
+        homePage,
+      }) => {
         // Assert - Review images should exist and be visible
         await expect(
           homePage.reviews.lightGalleryContainerLocator,
         ).toBeVisible();
         const imageCount = await homePage.reviews.getReviewImageCount();
-        expect(imageCount).toBeGreaterThan(0);
+        expect(imageCount).toBeGreaterThanOrEqual(reviewsData.minGalleryImages);
       });
 
-      test('should open lightbox when clicking on review image', async () => {
+      test('should open lightbox when clicking on review image', async ({
+        homePage,
+      }) => {
         // Arrange - Verify review images exist
         await expect(
           homePage.reviews.lightGalleryContainerLocator,
@@ -204,7 +263,9 @@ test.describe('Home Page - E2E Integration Tests', () => {
         await homePage.reviews.closeLightbox();
       });
 
-      test('should display correct image counter in lightbox', async () => {
+      test('should display correct image counter in lightbox', async ({
+        homePage,
+      }) => {
         // Arrange - Verify review images exist
         await expect(
           homePage.reviews.lightGalleryContainerLocator,
@@ -223,7 +284,9 @@ test.describe('Home Page - E2E Integration Tests', () => {
         await homePage.reviews.closeLightbox();
       });
 
-      test('should close lightbox when clicking close button', async () => {
+      test('should close lightbox when clicking close button', async ({
+        homePage,
+      }) => {
         // Arrange - Verify review images exist
         await expect(
           homePage.reviews.lightGalleryContainerLocator,
@@ -239,6 +302,95 @@ test.describe('Home Page - E2E Integration Tests', () => {
         // Assert - Lightbox should be hidden
         await expect(homePage.reviews.lightboxLocator).toBeHidden();
       });
+
+      test('should open the lightbox on the clicked image', async ({
+        homePage,
+      }) => {
+        // Arrange - Pick the last thumbnail of the first gallery
+        const imageCount = await homePage.reviews.getReviewImageCount();
+
+        // Act
+        await homePage.reviews.clickReviewImage(imageCount - 1);
+
+        // Assert - Counter and displayed image match the thumbnail
+        await homePage.reviews.expectLightboxOpenedOnClickedImage();
+        await homePage.reviews.closeLightbox();
+      });
+
+      test('should open each gallery with its own images', async ({
+        homePage,
+      }) => {
+        // Arrange
+        const galleryCount = await homePage.reviews.getGalleryCount();
+        expect(galleryCount).toBeGreaterThanOrEqual(1);
+
+        for (let gallery = 0; gallery < galleryCount; gallery++) {
+          // Act
+          await homePage.reviews.clickReviewImage(0, gallery);
+
+          // Assert - Lightbox lists only this gallery's images
+          expect(await homePage.reviews.getTotalImageCount()).toBe(
+            await homePage.reviews.getReviewImageCount(gallery),
+          );
+          await homePage.reviews.expectLightboxOpenedOnClickedImage();
+          await homePage.reviews.closeLightbox();
+        }
+      });
+
+      test('should wrap around from the last image to the first', async ({
+        homePage,
+      }) => {
+        // Arrange - Open the gallery on its last image
+        await homePage.reviews.clickReviewImage(0);
+        const totalImages = await homePage.reviews.getTotalImageCount();
+        expect(totalImages).toBeGreaterThan(1);
+        await homePage.reviews.lightboxGoTo(totalImages);
+        await homePage.reviews.expectLightboxImageMatchesThumbnail();
+
+        // Act
+        await homePage.reviews.lightboxNext();
+
+        // Assert
+        await homePage.reviews.expectCurrentImageIndex(1);
+        await homePage.reviews.expectLightboxImageMatchesThumbnail();
+        await homePage.reviews.closeLightbox();
+      });
+
+      test('should wrap around from the first image to the last', async ({
+        homePage,
+      }) => {
+        // Arrange
+        await homePage.reviews.clickReviewImage(0);
+        const totalImages = await homePage.reviews.getTotalImageCount();
+        expect(totalImages).toBeGreaterThan(1);
+
+        // Act
+        await homePage.reviews.lightboxPrevious();
+
+        // Assert
+        await homePage.reviews.expectCurrentImageIndex(totalImages);
+        await homePage.reviews.expectLightboxImageMatchesThumbnail();
+        await homePage.reviews.closeLightbox();
+      });
+
+      // Only the controls the page loads a lightGallery plugin for (data/reviews.json)
+      for (const control of reviewsData.lightboxControls) {
+        test(`should toggle lightbox ${control} on and off`, async ({
+          homePage,
+        }) => {
+          // Arrange
+          await homePage.reviews.clickReviewImage(0);
+
+          // Act & Assert
+          expect(await homePage.reviews.toggleLightboxControl(control)).toBe(
+            true,
+          );
+          expect(await homePage.reviews.toggleLightboxControl(control)).toBe(
+            false,
+          );
+          await homePage.reviews.closeLightbox();
+        });
+      }
     });
   });
 });
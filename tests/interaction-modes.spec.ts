@@ -0,0 +1,126 @@
+import { test, expect } from '../fixtures';
+import { INTERACTION_MODES } from '../utils/interaction';
+import { validFormData } from '../utils/testData';
+
+/**
+ * Interaction Mode Tests
+ *
+ * The same user flows run with the mouse and with the keyboard only
+ * (`test.use({ interactionMode })`): components click in "mouse" mode and
+ * tab to controls and press Enter / Space / arrow keys / Escape in "keyboard" mode.
+ */
+INTERACTION_MODES.forEach((interactionMode) => {
+  // Keyboard flows only apply to desktop projects
+  const tag = interactionMode === 'keyboard' ? ['@desktop-only'] : [];
+
+  test.describe(`User Flows (${interactionMode})`, { tag }, () => {
+    test.use({ interactionMode });
+
+    test('should navigate the slider with the arrows', async ({ slider }) => {
+      // Arrange
+      const initialIndex = await slider.getActiveSlideIndex();
+      const totalSlides = await slider.getTotalSlidesCount();
+
+      // Act
+      await slider.clickNext();
+
+      // Assert
+      await slider.expectActiveSlideIndex((initialIndex + 1) % totalSlides);
+      await slider.expectSlidersSynchronized();
+
+      // Act
+      await slider.clickPrevious();
+
+      // Assert
+      await slider.expectActiveSlideIndex(initialIndex);
+    });
+
+    test('should expand and collapse the reviews', async ({ reviews }) => {
+      // Arrange
+      await reviews.expectCollapsed();
+
+      // Act & Assert
+      await reviews.toggleShowMoreLess();
+      await reviews.expectExpanded();
+      await reviews.toggleShowMoreLess();
+      await reviews.expectCollapsed();
+    });
+
+    test('should browse and close the review image lightbox', async ({
+      reviews,
+    }) => {
+      // Arrange
+      await reviews.clickReviewImage(0);
+      await reviews.expectLightboxVisible();
+      const totalImages = await reviews.getTotalImageCount();
+      expect(totalImages).toBeGreaterThan(1);
+      const startIndex = await reviews.getCurrentImageIndex();
+
+      // Act
+      await reviews.lightboxNext();
+
+      // Assert - One image further, wrapping after the last
+      await reviews.expectCurrentImageIndex((startIndex % totalImages) + 1);
+
+      // Act
+      await reviews.lightboxPrevious();
+      await reviews.closeLightbox();
+
+      // Assert
+      await expect(reviews.lightboxLocator).toBeHidden();
+    });
+
+    test('should move from the zip step to the email step', async ({
+      form,
+    }) => {
+      // Arrange
+      await form.expectCurrentStep('zip');
+
+      // Act
+      await form.fillForm({ zip: validFormData.zip });
+
+      // Assert
+      await form.expectCurrentStep('email');
+    });
+  });
+});
+
+test.describe('Keyboard Focus', { tag: '@desktop-only' }, () => {
+  test.use({ interactionMode: 'keyboard' });
+
+  test('should reach the slider arrows in order with a visible focus', async ({
+    slider,
+  }) => {
+    // Act & Assert
+    await slider.expectFocusOrder();
+    await slider.expectFocusVisible();
+  });
+
+  test('should change the slide with the arrow keys', async ({ slider }) => {
+    // Arrange
+    const initialIndex = await slider.getActiveSlideIndex();
+    const totalSlides = await slider.getTotalSlidesCount();
+
+    // Act
+    await slider.pressArrowKey('next');
+
+    // Assert
+    await slider.expectActiveSlideIndex((initialIndex + 1) % totalSlides);
+  });
+
+  test('should reach the reviews controls in order with a visible focus', async ({
+    reviews,
+  }) => {
+    // Act & Assert
+    await reviews.expectFocusOrder();
+    await reviews.expectFocusVisible();
+  });
+
+  test('should reach the zip input before the Next button with a visible focus', async ({
+    form,
+  }) => {
+    // Act & Assert
+    await form.expectFocusOrder();
+    await form.expectFocusVisible();
+  });
+});
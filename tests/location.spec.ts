@@ -0,0 +1,60 @@
+import { test, expect } from '../fixtures';
+import { locationData } from '../utils/testData';
+
+/**
+ * Location Detection Tests
+ *
+ * Controls the inputs of location detection: the geo-IP lookup is stubbed
+ * (utils/geoIp.ts), the browser position, permission, time zone and locale are
+ * emulated. Scenarios live in data/location.json.
+ */
+test.describe('Location Detection', () => {
+  test('should display the detected location as "City, ST"', async ({
+    location,
+  }) => {
+    // Act & Assert - Real lookup, only the format is known
+    await location.expectCityAndStateFormat();
+    expect(await location.getDetectedLocation()).not.toBeNull();
+  });
+
+  // Scenarios without an expected location must fall back. The fallback copy is only
+  // asserted once data/location.json records it from the live page.
+  const detected = locationData.scenarios.flatMap((scenario) =>
+    scenario.expected ? [{ ...scenario, expected: scenario.expected }] : [],
+  );
+  const fallingBack = locationData.scenarios.filter(
+    (scenario) => !scenario.expected,
+  );
+  const emulate = (scenario: (typeof locationData.scenarios)[number]) => ({
+    geoIp: scenario.geoIp,
+    geolocation:
+      scenario.geolocation === 'denied' ? undefined : scenario.geolocation,
+    permissions: scenario.geolocation === 'denied' ? [] : ['geolocation'],
+    timezoneId: scenario.timezoneId,
+    locale: scenario.locale,
+  });
+
+  for (const scenario of detected) {
+    test.describe(scenario.name, () => {
+      test.use(emulate(scenario));
+
+      test(`should display "${scenario.expected}"`, async ({ location }) => {
+        // Act & Assert
+        await location.expectLocationDisplayed(scenario.expected);
+      });
+    });
+  }
+
+  for (const scenario of fallingBack) {
+    test.describe(scenario.name, () => {
+      test.use(emulate(scenario));
+
+      test('should display the fallback instead of a location', async ({
+        location,
+      }) => {
+        // Act & Assert
+        await location.expectFallbackDisplayed(locationData.fallback);
+      });
+    });
+  }
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '../fixtures';
+
+/**
+ * Performance Budget Tests
+ *
+ * Reads the browser timing APIs through `homePage.performance` and checks the
+ * metrics against the budgets of the active environment profile
+ * (config/environments.ts). Each run attaches performance.json to the test and
+ * appends it to reports/performance/history.jsonl.
+ */
+test.describe('Performance Budgets', { tag: '@performance' }, () => {
+  test('should load the page within the budgets', async ({ homePage }) => {
+    // Act
+    const report = await homePage.collectPerformance();
+
+    // Assert
+    expect(report.navigation.loadMs).toBeGreaterThan(0);
+    await homePage.performance.expectWithinBudgets(report);
+  });
+
+  test('should load the slider and review images within the budget', async ({
+    homePage,
+    reviews,
+  }) => {
+    // Arrange - Gallery thumbnails are below the fold and may load lazily
+    await reviews.reviewImagesLocator.first().scrollIntoViewIfNeeded();
+
+    // Act
+    const report = await homePage.collectPerformance();
+
+    // Assert - At least the first slide image was loaded and timed
+    expect(
+      report.images.filter(
+        (image) => image.component === 'slider' && image.durationMs !== null,
+      ).length,
+    ).toBeGreaterThan(0);
+    await homePage.performance.expectWithinBudgets(report);
+  });
+
+  test('should not shift the layout during a slide transition', async ({
+    homePage,
+    slider,
+  }) => {
+    // Act
+    await homePage.performance.measureLayoutShift('slide-transition', () =>
+      slider.clickNext(),
+    );
+    const report = await homePage.collectPerformance();
+
+    // Assert
+    await homePage.performance.expectWithinBudgets(report);
+  });
+
+  test('should not shift the layout unexpectedly when reviews expand', async ({
+    homePage,
+    reviews,
+  }) => {
+    // Act
+    await homePage.performance.measureLayoutShift('reviews-expand', () =>
+      reviews.toggleShowMoreLess(),
+    );
+    const report = await homePage.collectPerformance();
+
+    // Assert
+    await reviews.expectExpanded();
+    await homePage.performance.expectWithinBudgets(report);
+  });
+});
@@ -0,0 +1,142 @@
+import { test } from '../fixtures';
+import { expectedErrorKind, fieldRules } from '../utils/inputGenerators';
+import { ReflectionDetector } from '../utils/reflection';
+import { hostileInputs, validFormData } from '../utils/testData';
+import { relatesTo } from '../utils/traceability';
+
+/**
+ * Input Sanitation Tests
+ *
+ * Pushes the hostile values of data/hostileInputs.yaml (markup and script injection,
+ * SQL-looking strings, encoding breakouts, very long values, null bytes and RTL
+ * override characters) through each quiz form field. After every step the page is
+ * scanned (utils/reflection.ts): nothing may be parsed into the DOM or executed, and
+ * no dialog may open. Submissions are intercepted and stubbed, so no lead reaches the
+ * backend. Valid emails must be submitted exactly as entered; invalid ones must be
+ * rejected with the field error.
+ */
+test.describe('Input Sanitation - Hostile Values', { tag: '@security' }, () => {
+  // Values a field's length limit may cut are only checked for reflection. The rest
+  // are split by the email requirement: accepted values must reach the backend as
+  // entered, rejected ones must show the field error and send nothing.
+  const exactValues = hostileInputs.filter(
+    (input) => input.category !== 'long',
+  );
+  const acceptedEmails = exactValues.filter((input) =>
+    fieldRules.email(input.value),
+  );
+  const rejectedEmails = exactValues.filter(
+    (input) => !fieldRules.email(input.value),
+  );
+
+  test('should not reflect hostile zip codes into the page', async ({
+    page,
+    homePage,
+    form,
+  }) => {
+    test.slow();
+    // Arrange
+    const reflections = await new ReflectionDetector(page).install();
+
+    for (const input of hostileInputs) {
+      await homePage.goto('/');
+
+      // Act - Enter the value and press Next, then scan
+      await form.fillForm(
+        { zip: input.value },
+        { afterStep: reflections.scanAfter(input.name) },
+      );
+    }
+
+    // Assert
+    reflections.expectNoReflections();
+  });
+
+  test('should not reflect hostile emails into the page', async ({
+    page,
+    homePage,
+    form,
+  }) => {
+    test.slow();
+    // Arrange
+    const reflections = await new ReflectionDetector(page).install();
+
+    for (const input of hostileInputs) {
+      await homePage.goto('/');
+      await form.interceptSubmissions({ stub: 'success' });
+
+      // Act - Pass the zip step, enter the value and submit, scanning after each step
+      await form.fillForm(
+        { zip: validFormData.zip, email: input.value },
+        { afterStep: reflections.scanAfter(input.name) },
+      );
+    }
+
+    // Assert
+    reflections.expectNoReflections();
+  });
+
+  test(
+    'should not reflect hostile phone numbers into the page',
+    { annotation: relatesTo('DEFECT-003') },
+    async ({ page, homePage, form }) => {
+      test.slow();
+      // Arrange
+      const reflections = await new ReflectionDetector(page).install();
+
+      for (const input of hostileInputs) {
+        await homePage.goto('/');
+        await form.interceptSubmissions({ stub: 'success' });
+
+        // Act - Fill every step, then submit the hostile phone number
+        await form.fillForm(
+          { ...validFormData, phone: input.value },
+          { afterStep: reflections.scanAfter(input.name) },
+        );
+        await form.advance();
+        await reflections.scan(`submit: ${input.name}`);
+      }
+
+      // Assert
+      reflections.expectNoReflections();
+    },
+  );
+
+  test('should send accepted hostile emails to the backend exactly as entered', async ({
+    homePage,
+    form,
+  }) => {
+    test.slow();
+    for (const input of acceptedEmails) {
+      // Arrange
+      await homePage.goto('/');
+      const submissions = await form.interceptSubmissions({ stub: 'success' });
+
+      // Act - The email step submits the form (DEFECT-002)
+      await form.fillForm({ zip: validFormData.zip, email: input.value });
+
+      // Assert - The lead went out with the email encoded, not altered
+      await submissions.waitForSubmissions();
+      form.expectSubmittedValueIntact('email', input.value);
+    }
+  });
+
+  test('should reject the other hostile emails without sending them', async ({
+    homePage,
+    form,
+  }) => {
+    test.slow();
+    for (const input of rejectedEmails) {
+      // Arrange
+      await homePage.goto('/');
+      await form.interceptSubmissions({ stub: 'success' });
+
+      // Act
+      await form.fillForm({ zip: validFormData.zip, email: input.value });
+
+      // Assert
+      await form.expectFieldError('email', expectedErrorKind(input.value));
+      await form.expectNothingSubmitted();
+    }
+  });
+});
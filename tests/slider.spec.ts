@@ -1,6 +1,5 @@
-import { test, expect } from '@playwright/test';
-
-import { SliderComponent } from '../pages/components/SliderComponent';
+import { test, expect } from '../fixtures';
+import { sliderData } from '../utils/testData';
 
 /**
  * Slider Component Tests
@@ -8,56 +7,59 @@ import { SliderComponent } from '../pages/components/SliderComponent';
  * Tests for the product slider component, including:
  * - Slider initialization and visibility
  * - Navigation via prev/next buttons
+ * - Navigation via swipe and drag (touch and mouse)
  * - Navigation via thumbnail clicks
  * - Synchronization between main and preview sliders
  * - Slide transitions and image loading
+ * - Autoplay interval and pausing on hover / focus
  */
 test.describe('Slider Component', () => {
-  let slider: SliderComponent;
-
-  test.beforeEach(async ({ page }) => {
-    await page.goto('/');
-    slider = new SliderComponent(page);
-  });
-
   // ============================================
   // Slider Initialization Tests
   // ============================================
 
   test.describe('Slider Initialization', () => {
-    test('should display slider container on page load', async () => {
+    test('should display slider container on page load', async ({ slider }) => {
       // Assert - Slider container should be visible
       await slider.expectSliderVisible();
     });
 
-    test('should display navigation buttons', async () => {
-      // Assert - Navigation buttons should be visible
-      await slider.expectNavigationButtonsVisible();
-    });
-
-    test('should initialize with at least one slide', async () => {
-      // Assert - Should have at least one slide
+    test(
+      'should display navigation buttons',
+      { tag: '@desktop-only' },
+      async ({ slider }) => {
+        // Assert - Navigation buttons should be visible
+        await slider.expectNavigationButtonsVisible();
+      },
+    );
+
+    test('should initialize with at least one slide', async ({ slider }) => {
+      // Assert - Should have at least the expected minimum of slides
       const slideCount = await slider.getTotalSlidesCount();
-      expect(slideCount).toBeGreaterThan(0);
+      expect(slideCount).toBeGreaterThanOrEqual(sliderData.minSlides);
     });
 
-    test('should have active slide on initialization', async () => {
+    test('should have active slide on initialization', async ({ slider }) => {
       // Assert - Should have an active slide
       const activeIndex = await slider.getActiveSlideIndex();
       expect(activeIndex).toBeGreaterThanOrEqual(0);
     });
 
-    test('should have main and preview sliders synchronized on load', async () => {
+    test('should have main and preview sliders synchronized on load', async ({
+      slider,
+    }) => {
       // Assert - Main and preview sliders should be synchronized
       await slider.expectSlidersSynchronized();
     });
 
-    test('should display matching images in active main and preview slides', async () => {
+    test('should display matching images in active main and preview slides', async ({
+      slider,
+    }) => {
       // Assert - Active images should match between main and preview
       await slider.expectActiveImagesMatch();
     });
 
-    test('should load images for visible slides', async () => {
+    test('should load images for visible slides', async ({ slider }) => {
       // Assert - Active slide image should be loaded
       const activeIndex = await slider.getActiveSlideIndex();
       await slider.expectSlideImageLoaded(activeIndex);
@@ -69,7 +71,9 @@ test.describe('Slider Component', () => {
   // ============================================
 
   test.describe('Navigation via Previous/Next Buttons', () => {
-    test('should navigate to next slide when clicking next button', async () => {
+    test('should navigate to next slide when clicking next button', async ({
+      slider,
+    }) => {
       // Arrange - Get initial active slide index
       const initialIndex = await slider.getActiveSlideIndex();
       const totalSlides = await slider.getTotalSlidesCount();
@@ -82,7 +86,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(expectedNextIndex);
     });
 
-    test('should navigate to previous slide when clicking previous button', async () => {
+    test('should navigate to previous slide when clicking previous button', async ({
+      slider,
+    }) => {
       // Arrange - Get initial active slide index
       const initialIndex = await slider.getActiveSlideIndex();
       const totalSlides = await slider.getTotalSlidesCount();
@@ -96,7 +102,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(expectedPrevIndex);
     });
 
-    test('should wrap around to first slide when clicking next on last slide', async () => {
+    test('should wrap around to first slide when clicking next on last slide', async ({
+      slider,
+    }) => {
       // Arrange - Navigate to last slide
       const totalSlides = await slider.getTotalSlidesCount();
       const lastSlideIndex = totalSlides - 1;
@@ -113,7 +121,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(0);
     });
 
-    test('should wrap around to last slide when clicking previous on first slide', async () => {
+    test('should wrap around to last slide when clicking previous on first slide', async ({
+      slider,
+    }) => {
       // Arrange - Ensure we're on first slide
       const totalSlides = await slider.getTotalSlidesCount();
       await slider.expectActiveSlideIndex(0);
@@ -126,7 +136,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(expectedLastIndex);
     });
 
-    test('should keep sliders synchronized after navigation', async () => {
+    test('should keep sliders synchronized after navigation', async ({
+      slider,
+    }) => {
       // Act - Navigate using next button
       await slider.clickNext();
 
@@ -135,7 +147,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveImagesMatch();
     });
 
-    test('should update active slide classes after navigation', async () => {
+    test('should update active slide classes after navigation', async ({
+      slider,
+    }) => {
       // Act - Navigate to next slide
       await slider.clickNext();
 
@@ -144,12 +158,84 @@ test.describe('Slider Component', () => {
     });
   });
 
+  // ============================================
+  // Navigation via Swipe and Drag Tests
+  // ============================================
+
+  // Touch drags on touch devices, mouse drags on desktop
+  test.describe('Navigation via Swipe and Drag', () => {
+    test('should show the next slide when swiping left', async ({ slider }) => {
+      // Arrange
+      const initialIndex = await slider.getActiveSlideIndex();
+      const totalSlides = await slider.getTotalSlidesCount();
+
+      // Act
+      const result = await slider.swipeLeft();
+
+      // Assert
+      expect(result.outcome).toBe('changed');
+      await slider.expectActiveSlideIndex((initialIndex + 1) % totalSlides);
+      await slider.expectSlidersSynchronized();
+    });
+
+    test('should show the previous slide when swiping right', async ({
+      slider,
+    }) => {
+      // Arrange
+      const initialIndex = await slider.getActiveSlideIndex();
+      const totalSlides = await slider.getTotalSlidesCount();
+
+      // Act
+      const result = await slider.swipeRight();
+
+      // Assert
+      expect(result.outcome).toBe('changed');
+      await slider.expectActiveSlideIndex(
+        (initialIndex - 1 + totalSlides) % totalSlides,
+      );
+      await slider.expectSlidersSynchronized();
+    });
+
+    test('should snap back when the drag is below the swipe threshold', async ({
+      slider,
+    }) => {
+      // Arrange
+      const threshold = await slider.getSwipeThreshold();
+
+      // Act
+      const result = await slider.dragBy(-threshold / 2);
+
+      // Assert
+      expect(result.outcome).toBe('snapped-back');
+      await slider.expectActiveSlideIndex(result.from);
+      await slider.expectSlidersSynchronized();
+    });
+
+    test('should change the slide when the drag passes the swipe threshold', async ({
+      slider,
+    }) => {
+      // Arrange
+      const threshold = await slider.getSwipeThreshold();
+      const totalSlides = await slider.getTotalSlidesCount();
+
+      // Act
+      const result = await slider.dragBy(-threshold * 1.5);
+
+      // Assert
+      expect(result.outcome).toBe('changed');
+      expect(result.to).toBe((result.from + 1) % totalSlides);
+      await slider.expectSlidersSynchronized();
+    });
+  });
+
   // ============================================
   // Navigation via Thumbnail Clicks Tests
   // ============================================
 
   test.describe('Navigation via Preview Thumbnails', () => {
-    test('should navigate to specific slide when clicking preview thumbnail', async () => {
+    test('should navigate to specific slide when clicking preview thumbnail', async ({
+      slider,
+    }) => {
       // Arrange - Get initial slide and target slide
       const initialIndex = await slider.getActiveSlideIndex();
       const targetIndex =
@@ -162,7 +248,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(targetIndex);
     });
 
-    test('should synchronize main slider when clicking preview thumbnail', async () => {
+    test('should synchronize main slider when clicking preview thumbnail', async ({
+      slider,
+    }) => {
       // Arrange - Calculate target index
       const initialIndex = await slider.getActiveSlideIndex();
       const totalSlides = await slider.getTotalSlidesCount();
@@ -176,7 +264,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveImagesMatch();
     });
 
-    test('should navigate to first slide when clicking first thumbnail', async () => {
+    test('should navigate to first slide when clicking first thumbnail', async ({
+      slider,
+    }) => {
       // Arrange - Navigate away from first slide
       await slider.clickNext();
 
@@ -187,7 +277,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(0);
     });
 
-    test('should navigate to last slide when clicking last thumbnail', async () => {
+    test('should navigate to last slide when clicking last thumbnail', async ({
+      slider,
+    }) => {
       // Arrange - Get total slides count
       const totalSlides = await slider.getTotalSlidesCount();
       const lastIndex = totalSlides - 1;
@@ -199,7 +291,9 @@ test.describe('Slider Component', () => {
       await slider.expectActiveSlideIndex(lastIndex);
     });
 
-    test('should update preview slider when navigating via thumbnails', async () => {
+    test('should update preview slider when navigating via thumbnails', async ({
+      slider,
+    }) => {
       // Arrange - Get target index
       const totalSlides = await slider.getTotalSlidesCount();
       const targetIndex = Math.floor(totalSlides / 2);
@@ -218,7 +312,9 @@ test.describe('Slider Component', () => {
   // ============================================
 
   test.describe('Multiple Navigation Actions', () => {
-    test('should navigate through all slides sequentially', async () => {
+    test('should navigate through all slides sequentially', async ({
+      slider,
+    }) => {
       // Arrange - Get total slides count
       const totalSlides = await slider.getTotalSlidesCount();
 
@@ -232,7 +328,9 @@ test.describe('Slider Component', () => {
       }
     });
 
-    test('should maintain synchronization during multiple navigations', async () => {
+    test('should maintain synchronization during multiple navigations', async ({
+      slider,
+    }) => {
       // Act - Perform multiple navigations
       await slider.clickNext();
       await slider.clickNext();
@@ -244,7 +342,7 @@ test.describe('Slider Component', () => {
       await slider.expectActiveImagesMatch();
     });
 
-    test('should correctly handle rapid navigation', async () => {
+    test('should correctly handle rapid navigation', async ({ slider }) => {
       // Act - Rapidly click next multiple times
       for (let i = 0; i < 3; i++) {
         await slider.clickNext();
@@ -262,7 +360,7 @@ test.describe('Slider Component', () => {
   // ============================================
 
   test.describe('Image Loading', () => {
-    test('should load images for all slides', async () => {
+    test('should load images for all slides', async ({ slider }) => {
       // Arrange - Get total slides count
       const totalSlides = await slider.getTotalSlidesCount();
 
@@ -276,22 +374,74 @@ test.describe('Slider Component', () => {
       }
     });
 
-    test('should have valid image sources for all slides', async () => {
+    test('should have valid image sources for all slides', async ({
+      slider,
+    }) => {
       // Arrange - Get total slides count
       const totalSlides = await slider.getTotalSlidesCount();
 
       // Assert - First slide has valid image source
       let imageSrc = await slider.getActiveSlideImageSrc();
       expect(imageSrc).toBeTruthy();
-      expect(imageSrc).toContain('.jpg');
+      expect(imageSrc).toContain(sliderData.imageExtension);
 
       // Act & Assert - Navigate and check remaining slides
       for (let i = 1; i < totalSlides; i++) {
         await slider.clickNext();
         imageSrc = await slider.getActiveSlideImageSrc();
         expect(imageSrc).toBeTruthy();
-        expect(imageSrc).toContain('.jpg');
+        expect(imageSrc).toContain(sliderData.imageExtension);
       }
     });
   });
+
+  // ============================================
+  // Autoplay Tests (fake clock, no real waiting)
+  // ============================================
+
+  test.describe('Autoplay', () => {
+    test.use({ fakeClock: true });
+
+    const { intervalMs, toleranceMs } = sliderData.autoplay;
+
+    test('should be configured for autoplay with the expected interval', async ({
+      slider,
+    }) => {
+      // Act
+      const settings = await slider.getAutoplaySettings();
+
+      // Assert
+      expect(settings).toMatchObject({
+        autoplay: true,
+        autoplaySpeed: intervalMs,
+      });
+    });
+
+    test('should change slides automatically at the expected interval', async ({
+      slider,
+    }) => {
+      // Act & Assert
+      await slider.expectAutoplayInterval(intervalMs, toleranceMs);
+      await slider.expectSlidersSynchronized();
+    });
+
+    test(
+      'should pause autoplay while hovered',
+      { tag: '@desktop-only' },
+      async ({ slider }) => {
+        // Act & Assert
+        await slider.expectPausedOnHover(intervalMs);
+      },
+    );
+
+    // The arrows it focuses are hidden on mobile
+    test(
+      'should pause autoplay while a slider control has focus',
+      { tag: '@desktop-only' },
+      async ({ slider }) => {
+        // Act & Assert
+        await slider.expectPausedOnFocus(intervalMs);
+      },
+    );
+  });
 });
@@ -0,0 +1,61 @@
+import { test } from '../fixtures';
+import { validFormData } from '../utils/testData';
+
+/**
+ * Visual Regression Tests
+ *
+ * Compares component containers with their screenshot baselines in
+ * tests/__screenshots__/<project>/. Dynamic regions (detected city, lightbox
+ * counter) are masked; tolerances per component are in data/visual.json.
+ * Update the baselines with `npm run test:visual:update`.
+ */
+test.describe('Visual Regression', { tag: '@visual' }, () => {
+  test.describe('Slider', () => {
+    [0, 1].forEach((slideIndex) => {
+      test(`should match the baseline of slide ${slideIndex}`, async ({
+        slider,
+      }) => {
+        // Act & Assert
+        await slider.expectVisualMatch(slideIndex);
+      });
+    });
+  });
+
+  test.describe('Reviews', () => {
+    test('should match the collapsed baseline', async ({ reviews }) => {
+      // Act & Assert
+      await reviews.expectVisualMatch('collapsed');
+    });
+
+    test('should match the expanded baseline', async ({ reviews }) => {
+      // Act & Assert
+      await reviews.expectVisualMatch('expanded');
+    });
+
+    test('should match the lightbox baseline', async ({ reviews }) => {
+      // Act & Assert
+      await reviews.expectVisualMatch('lightbox');
+    });
+  });
+
+  test.describe('Form', () => {
+    test('should match the zip step baseline', async ({ form }) => {
+      // Act & Assert
+      await form.expectVisualMatch('zip');
+    });
+
+    test('should match the email step baseline', async ({ form }) => {
+      // Act & Assert
+      await form.expectVisualMatch('email', validFormData);
+    });
+  });
+
+  test.describe('Location', () => {
+    test('should match the baseline with the city masked', async ({
+      location,
+    }) => {
+      // Act & Assert
+      await location.expectVisualMatch();
+    });
+  });
+});
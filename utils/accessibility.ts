@@ -0,0 +1,367 @@
+import { expect, test, type Locator, type Page } from '@playwright/test';
+
+import { loadDataset } from './dataLoader';
+import { A11Y_RULE_IDS } from './dataSchemas';
+
+/**
+ * Local accessibility rules engine.
+ * Rules run inside the page (no network, no third-party engine) against the whole
+ * document or a single component container, and return a structured report.
+ * Known issues listed in data/accessibility.json are reported as baselined and do
+ * not fail the audit.
+ */
+
+export type A11yRuleId = (typeof A11Y_RULE_IDS)[number];
+
+export type A11yImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface A11yViolation {
+  rule: A11yRuleId;
+  impact: A11yImpact;
+  /** CSS path of the offending element, e.g. `form#quiz > input:nth-of-type(2)` */
+  target: string;
+  /** Opening tag of the offending element */
+  html: string;
+  message: string;
+}
+
+export interface BaselinedViolation extends A11yViolation {
+  /** Why the violation is accepted (from the baseline entry) */
+  reason: string;
+}
+
+export interface A11yReport {
+  /** What was audited, e.g. "page" or "slider" */
+  scope: string;
+  url: string;
+  rules: A11yRuleId[];
+  /** Violations that fail the audit */
+  violations: A11yViolation[];
+  /** Violations matched by a baseline entry */
+  baselined: BaselinedViolation[];
+}
+
+export interface A11yAuditOptions {
+  /** Name used in the report and attachment, defaults to "page" */
+  name?: string;
+  /** Container to audit, defaults to the whole document body */
+  scope?: Locator;
+  /** Rules to run, defaults to all of them */
+  rules?: A11yRuleId[];
+  /**
+   * Also audit elements that are not rendered yet, e.g. inputs on later quiz steps:
+   * true for every rule, or the rules to widen
+   */
+  includeHidden?: boolean | A11yRuleId[];
+  /** Validation message blocks that must be linked to their input */
+  errorSelector?: string;
+}
+
+interface RuleInput {
+  rules: A11yRuleId[];
+  /** Rules that also audit elements that are not rendered */
+  includeHidden: A11yRuleId[];
+  errorSelector: string;
+  genericAltText: string[];
+  baseline: { rule: A11yRuleId; selector: string; reason: string }[];
+}
+
+interface RuleOutput {
+  violations: A11yViolation[];
+  baselined: BaselinedViolation[];
+}
+
+/**
+ * Runs the rules in the browser. Must stay self-contained: Playwright serializes
+ * it into the page, so it cannot reference anything outside its own body.
+ */
+function runRules(root: Element, input: RuleInput): RuleOutput {
+  const output: RuleOutput = { violations: [], baselined: [] };
+
+  const isRendered = (element: Element): boolean => {
+    if (element.closest('[aria-hidden="true"]')) return false;
+    const style = window.getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden') {
+      return false;
+    }
+    return element.getClientRects().length > 0;
+  };
+
+  const candidates = (rule: A11yRuleId, selector: string): Element[] => {
+    const elements = Array.from(root.querySelectorAll(selector));
+    if (root.matches(selector)) elements.unshift(root);
+    return input.includeHidden.includes(rule)
+      ? elements
+      : elements.filter(isRendered);
+  };
+
+  const cssPath = (element: Element): string => {
+    const parts: string[] = [];
+    for (
+      let current: Element | null = element;
+      current && current !== document.body;
+      current = current.parentElement
+    ) {
+      if (current.id) {
+        parts.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+      let part = current.tagName.toLowerCase();
+      if (current.classList[0]) part += `.${CSS.escape(current.classList[0])}`;
+      const sameTag = current.parentElement
+        ? Array.from(current.parentElement.children).filter(
+            (sibling) => sibling.tagName === current?.tagName,
+          )
+        : [];
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+      }
+      parts.unshift(part);
+    }
+    return parts.join(' > ') || 'body';
+  };
+
+  const openingTag = (element: Element): string => {
+    const html = element.outerHTML;
+    const end = html.indexOf('>');
+    return end === -1 ? html : html.slice(0, end + 1).slice(0, 200);
+  };
+
+  const textOf = (element: Element): string =>
+    (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+  const labelledByText = (element: Element): string =>
+    (element.getAttribute('aria-labelledby') ?? '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((id) => document.getElementById(id))
+      .map((labelElement) => (labelElement ? textOf(labelElement) : ''))
+      .join(' ')
+      .trim();
+
+  /** Simplified accessible name: aria-labelledby, aria-label, labels, content, title */
+  const accessibleName = (element: Element): string => {
+    const labelledBy = labelledByText(element);
+    if (labelledBy) return labelledBy;
+    const ariaLabel = element.getAttribute('aria-label')?.trim();
+    if (ariaLabel) return ariaLabel;
+    if (
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLSelectElement ||
+      element instanceof HTMLTextAreaElement
+    ) {
+      const labels = Array.from(element.labels ?? [])
+        .map(textOf)
+        .join(' ')
+        .trim();
+      if (labels) return labels;
+    } else {
+      const content = textOf(element);
+      if (content) return content;
+      const imageAlt = Array.from(element.querySelectorAll('img[alt]'))
+        .map((image) => image.getAttribute('alt')?.trim() ?? '')
+        .join(' ')
+        .trim();
+      if (imageAlt) return imageAlt;
+      const svgTitle = element.querySelector('svg title');
+      if (svgTitle && textOf(svgTitle)) return textOf(svgTitle);
+    }
+    return element.getAttribute('title')?.trim() ?? '';
+  };
+
+  const report = (
+    rule: A11yRuleId,
+    impact: A11yImpact,
+    element: Element,
+    message: string,
+  ): void => {
+    const violation: A11yViolation = {
+      rule,
+      impact,
+      target: cssPath(element),
+      html: openingTag(element),
+      message,
+    };
+    const entry = input.baseline.find(
+      (candidate) =>
+        candidate.rule === rule && element.matches(candidate.selector),
+    );
+    if (entry) {
+      output.baselined.push({ ...violation, reason: entry.reason });
+    } else {
+      output.violations.push(violation);
+    }
+  };
+
+  const rules: Record<A11yRuleId, () => void> = {
+    'input-label': () => {
+      candidates(
+        'input-label',
+        'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea',
+      ).forEach((field) => {
+        if (accessibleName(field)) return;
+        const placeholder = field.getAttribute('placeholder')?.trim();
+        report(
+          'input-label',
+          'critical',
+          field,
+          placeholder
+            ? `Form field is only labelled by its placeholder "${placeholder}"`
+            : 'Form field has no label',
+        );
+      });
+    },
+    'error-description': () => {
+      const describedIds = new Set(
+        Array.from(
+          document.querySelectorAll('[aria-describedby], [aria-errormessage]'),
+        ).flatMap((field) =>
+          [
+            field.getAttribute('aria-describedby'),
+            field.getAttribute('aria-errormessage'),
+          ]
+            .join(' ')
+            .split(/\s+/)
+            .filter(Boolean),
+        ),
+      );
+      candidates('error-description', input.errorSelector).forEach(
+        (errorBlock) => {
+          if (!errorBlock.id) {
+            report(
+              'error-description',
+              'serious',
+              errorBlock,
+              'Error message has no id, so no field can reference it with aria-describedby',
+            );
+          } else if (!describedIds.has(errorBlock.id)) {
+            report(
+              'error-description',
+              'serious',
+              errorBlock,
+              `No field references error message "#${errorBlock.id}" with aria-describedby`,
+            );
+          }
+        },
+      );
+    },
+    'button-name': () => {
+      candidates(
+        'button-name',
+        'button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]',
+      ).forEach((button) => {
+        const name =
+          button instanceof HTMLInputElement
+            ? accessibleName(button) || button.value.trim()
+            : accessibleName(button);
+        if (!name) {
+          report('button-name', 'critical', button, 'Button has no name');
+        }
+      });
+    },
+    'link-name': () => {
+      candidates('link-name', 'a[href]').forEach((link) => {
+        if (!accessibleName(link)) {
+          report('link-name', 'serious', link, 'Link has no name');
+        }
+      });
+    },
+    'image-alt': () => {
+      const generic = input.genericAltText.map((text) => text.toLowerCase());
+      candidates('image-alt', 'img').forEach((image) => {
+        if (
+          image.getAttribute('role') === 'presentation' ||
+          image.getAttribute('role') === 'none'
+        ) {
+          return;
+        }
+        const alt = image.getAttribute('alt');
+        if (alt === null) {
+          report('image-alt', 'critical', image, 'Image has no alt attribute');
+          return;
+        }
+        const normalized = alt.trim().toLowerCase();
+        if (generic.includes(normalized)) {
+          report(
+            'image-alt',
+            'moderate',
+            image,
+            `Alt text "${alt}" is generic and does not describe the image`,
+          );
+        } else if (/\.(avif|gif|jpe?g|png|svg|webp)$/.test(normalized)) {
+          report(
+            'image-alt',
+            'moderate',
+            image,
+            `Alt text "${alt}" is a file name`,
+          );
+        }
+      });
+    },
+  };
+
+  input.rules.forEach((rule) => rules[rule]());
+  return output;
+}
+
+/**
+ * Audits the page, or one container of it, and returns the report.
+ */
+export async function auditAccessibility(
+  page: Page,
+  options: A11yAuditOptions = {},
+): Promise<A11yReport> {
+  const { genericAltText, baseline } = loadDataset('accessibility');
+  const rules = options.rules ?? [...A11Y_RULE_IDS];
+  const scope = options.scope ?? page.locator('body');
+  await scope.waitFor({ state: 'attached' });
+
+  const { violations, baselined } = await scope.evaluate(runRules, {
+    rules,
+    includeHidden:
+      options.includeHidden === true ? rules : options.includeHidden || [],
+    errorSelector: options.errorSelector ?? '[data-error-block]',
+    genericAltText,
+    baseline,
+  });
+
+  return {
+    scope: options.name ?? 'page',
+    url: page.url(),
+    rules,
+    violations,
+    baselined,
+  };
+}
+
+/**
+ * Formats violations one per line for assertion messages.
+ */
+export function formatViolations(violations: A11yViolation[]): string {
+  return violations
+    .map(
+      (violation) =>
+        `  [${violation.impact}] ${violation.rule}: ${violation.message}\n    at ${violation.target}\n    ${violation.html}`,
+    )
+    .join('\n');
+}
+
+/**
+ * Audits the page or a container, attaches the JSON report to the test and asserts
+ * there are no violations outside the baseline.
+ */
+export async function expectNoA11yViolations(
+  page: Page,
+  options: A11yAuditOptions = {},
+): Promise<A11yReport> {
+  const report = await auditAccessibility(page, options);
+  await test.info().attach(`a11y-${report.scope}.json`, {
+    body: JSON.stringify(report, null, 2),
+    contentType: 'application/json',
+  });
+  expect(
+    report.violations,
+    `${report.violations.length} accessibility violation(s) in ${report.scope}:\n${formatViolations(report.violations)}`,
+  ).toEqual([]);
+  return report;
+}
@@ -0,0 +1,255 @@
+import {
+  expect,
+  type ConsoleMessage,
+  type Page,
+  type Request,
+  type Response,
+  type TestInfo,
+} from '@playwright/test';
+
+import { REPLAY_MISS_HEADER } from '../replay/server';
+import { loadDataset } from './dataLoader';
+import { type ASSET_ISSUE_KINDS } from './dataSchemas';
+
+/**
+ * Records broken assets and errors on a page for the whole test: console errors,
+ * uncaught page errors, failed or 4xx/5xx requests and images that did not decode
+ * (`naturalWidth === 0`). Issues matching the allowlist in data/assetGuard.json are
+ * reported as warnings; the others fail the test (or warn when the dataset's mode
+ * is "warn").
+ */
+
+export type AssetIssueKind = (typeof ASSET_ISSUE_KINDS)[number];
+
+export interface AssetIssue {
+  kind: AssetIssueKind;
+  message: string;
+  /** Resource or script the issue comes from, empty when unknown */
+  url: string;
+  /** Page the issue happened on */
+  pageUrl: string;
+}
+
+export interface AllowedAssetIssue extends AssetIssue {
+  /** Why the issue is accepted (from the allowlist entry) */
+  reason: string;
+}
+
+export interface AssetGuardReport {
+  failures: AssetIssue[];
+  warnings: AllowedAssetIssue[];
+  /** Issues the test provoked itself, e.g. stubbed error responses */
+  expected: AllowedAssetIssue[];
+}
+
+/** Request failures that are not broken assets (cancelled by a navigation or teardown) */
+const IGNORED_FAILURES = [
+  'net::ERR_ABORTED',
+  'NS_BINDING_ABORTED',
+  'cancelled',
+];
+
+/**
+ * Collects the issues of one page. Get it with `assetGuardFor(page)` so the fixture and
+ * `BasePage.goto` share one instance.
+ */
+export class AssetGuard {
+  private readonly page: Page;
+  private readonly issues: AssetIssue[] = [];
+  private readonly expectedFailures: {
+    urlPattern: string | RegExp;
+    reason: string;
+  }[] = [];
+
+  constructor(page: Page) {
+    this.page = page;
+    page.on('console', (message) => this.onConsole(message));
+    page.on('pageerror', (error) => this.onPageError(error));
+    page.on('requestfailed', (request) => this.onRequestFailed(request));
+    page.on('response', (response) => this.onResponse(response));
+  }
+
+  /**
+   * Issues recorded so far, oldest first.
+   */
+  get recorded(): AssetIssue[] {
+    return [...this.issues];
+  }
+
+  /**
+   * Marks failures of matching URLs as provoked by the test, e.g. a stubbed 500.
+   * Their failed requests and the console errors they cause are not reported.
+   */
+  expectFailure(urlPattern: string | RegExp, reason: string): void {
+    this.expectedFailures.push({ urlPattern, reason });
+  }
+
+  /**
+   * Records the images of the current document that finished loading without
+   * decoding. Lazy images that have not started loading are not checked.
+   */
+  async checkImages(): Promise<void> {
+    if (this.page.isClosed()) return;
+    const broken = await this.page
+      .locator('img')
+      .evaluateAll((images) =>
+        (images as HTMLImageElement[])
+          .filter(
+            (image) =>
+              image.complete &&
+              image.naturalWidth === 0 &&
+              Boolean(image.currentSrc || image.getAttribute('src')),
+          )
+          .map((image) => image.currentSrc || image.getAttribute('src') || ''),
+      );
+    const pageUrl = this.page.url();
+    broken
+      .filter(
+        (src) =>
+          !this.issues.some(
+            (issue) =>
+              issue.kind === 'image' &&
+              issue.url === src &&
+              issue.pageUrl === pageUrl,
+          ),
+      )
+      .forEach((src) =>
+        this.record('image', `Image did not load: ${src}`, src),
+      );
+  }
+
+  /**
+   * Checks a page after a navigation: waits for the load event, then checks its images.
+   * Called by `BasePage.goto`.
+   */
+  async checkAfterNavigation(): Promise<void> {
+    await this.page.waitForLoadState('load');
+    await this.checkImages();
+  }
+
+  /**
+   * Sorts the recorded issues into failures, warnings and expected failures.
+   */
+  evaluate(): AssetGuardReport {
+    const { mode, allowlist } = loadDataset('assetGuard');
+    const report: AssetGuardReport = {
+      failures: [],
+      warnings: [],
+      expected: [],
+    };
+    this.issues.forEach((issue) => {
+      const provoked = this.expectedFailures.find(({ urlPattern }) =>
+        typeof urlPattern === 'string'
+          ? issue.url === urlPattern
+          : urlPattern.test(issue.url),
+      );
+      if (provoked && issue.kind !== 'pageerror') {
+        report.expected.push({ ...issue, reason: provoked.reason });
+        return;
+      }
+      const allowed = allowlist.find(
+        (entry) =>
+          entry.kind === issue.kind &&
+          new RegExp(entry.pattern).test(`${issue.message} ${issue.url}`),
+      );
+      if (allowed) {
+        report.warnings.push({ ...issue, reason: allowed.reason });
+      } else if (mode === 'warn') {
+        report.warnings.push({
+          ...issue,
+          reason: 'Asset guard runs in warn mode',
+        });
+      } else {
+        report.failures.push(issue);
+      }
+    });
+    return report;
+  }
+
+  /**
+   * Checks the images of the final page, attaches the report to the test, adds a
+   * warning annotation per allowed issue and asserts that nothing else was recorded.
+   */
+  async expectNoUnexpectedIssues(testInfo: TestInfo): Promise<void> {
+    await this.checkImages();
+    const report = this.evaluate();
+    if (this.issues.length > 0) {
+      await testInfo.attach('asset-guard.json', {
+        body: JSON.stringify(report, null, 2),
+        contentType: 'application/json',
+      });
+    }
+    report.warnings.forEach((warning) =>
+      testInfo.annotations.push({
+        type: 'warning',
+        description: `[asset-guard] ${warning.kind}: ${warning.message} (${warning.reason})`,
+      }),
+    );
+    expect(
+      report.failures,
+      `Broken assets or errors on the page:\n${report.failures
+        .map(
+          (issue) => `  [${issue.kind}] ${issue.message} on ${issue.pageUrl}`,
+        )
+        .join('\n')}`,
+    ).toEqual([]);
+  }
+
+  private record(kind: AssetIssueKind, message: string, url: string): void {
+    this.issues.push({
+      kind,
+      message,
+      url,
+      pageUrl: this.page.isClosed() ? '' : this.page.url(),
+    });
+  }
+
+  private onConsole(message: ConsoleMessage): void {
+    if (message.type() !== 'error') return;
+    this.record('console', message.text(), message.location().url);
+  }
+
+  private onPageError(error: Error): void {
+    this.record('pageerror', error.message, '');
+  }
+
+  private onRequestFailed(request: Request): void {
+    const errorText = request.failure()?.errorText ?? 'failed';
+    if (IGNORED_FAILURES.some((ignored) => errorText.includes(ignored))) {
+      return;
+    }
+    this.record(
+      'request',
+      `${request.method()} ${request.url()} failed: ${errorText}`,
+      request.url(),
+    );
+  }
+
+  private onResponse(response: Response): void {
+    if (response.status() < 400) return;
+    if (response.headers()[REPLAY_MISS_HEADER]) {
+      // The snapshot lacks a resource the live page has: not a broken asset
+      this.expectFailure(response.url(), 'Not recorded in the replay snapshot');
+    }
+    const request = response.request();
+    this.record(
+      'request',
+      `${request.method()} ${response.url()} → ${response.status()}`,
+      response.url(),
+    );
+  }
+}
+
+const guards = new WeakMap<Page, AssetGuard>();
+
+/**
+ * The asset guard of a page, created on first use.
+ */
+export function assetGuardFor(page: Page): AssetGuard {
+  let guard = guards.get(page);
+  if (!guard) {
+    guard = new AssetGuard(page);
+    guards.set(page, guard);
+  }
+  return guard;
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { parse as parseYaml } from 'yaml';
+import { type z } from 'zod';
+
+import { getActiveEnvironment } from '../config/environments';
+import {
+  accessibilityDatasetSchema,
+  assetGuardDatasetSchema,
+  defectsDatasetSchema,
+  errorMessagesSchema,
+  formDatasetSchema,
+  hostileInputsDatasetSchema,
+  locationDatasetSchema,
+  requirementsDatasetSchema,
+  reviewsDatasetSchema,
+  sliderDatasetSchema,
+  thankYouDatasetSchema,
+  visualDatasetSchema,
+} from './dataSchemas';
+
+/**
+ * Loads the JSON/YAML datasets in data/.
+ *
+ * A dataset `<name>` is read from `data/<name>.json`, `.yaml` or `.yml`, then the
+ * optional overlay `data/overlays/<environment>/<name>.<ext>` is deep-merged over it
+ * (objects merge, arrays and values replace). The result is validated against the
+ * dataset's schema.
+ */
+export const DATA_DIR = path.resolve(__dirname, '..', 'data');
+
+const DATA_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const datasetSchemas = {
+  form: formDatasetSchema,
+  errorMessages: errorMessagesSchema,
+  slider: sliderDatasetSchema,
+  reviews: reviewsDatasetSchema,
+  requirements: requirementsDatasetSchema,
+  defects: defectsDatasetSchema,
+  accessibility: accessibilityDatasetSchema,
+  visual: visualDatasetSchema,
+  location: locationDatasetSchema,
+  assetGuard: assetGuardDatasetSchema,
+  thankYou: thankYouDatasetSchema,
+  hostileInputs: hostileInputsDatasetSchema,
+};
+
+export type DatasetName = keyof typeof datasetSchemas;
+export type Dataset<N extends DatasetName> = z.infer<
+  (typeof datasetSchemas)[N]
+>;
+
+/**
+ * Thrown when a dataset file is missing, unreadable or does not match its schema.
+ */
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+/**
+ * Finds `<dir>/<name>.<ext>`; null when absent, error when more than one format exists.
+ */
+function findDataFile(dir: string, name: string): string | null {
+  const candidates = DATA_EXTENSIONS.map((extension) =>
+    path.join(dir, `${name}${extension}`),
+  ).filter((file) => fs.existsSync(file));
+  if (candidates.length > 1) {
+    throw new DatasetError(
+      `Dataset "${name}" is defined more than once: ${candidates.join(', ')}`,
+    );
+  }
+  return candidates[0] ?? null;
+}
+
+function readDataFile(file: string): unknown {
+  const text = fs.readFileSync(file, 'utf-8');
+  try {
+    return file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new DatasetError(`Cannot parse ${file}: ${reason}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(base: unknown, overlay: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return overlay;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(overlay).forEach(([key, value]) => {
+    merged[key] = key in base ? deepMerge(base[key], value) : value;
+  });
+  return merged;
+}
+
+const cache = new Map<string, unknown>();
+
+/**
+ * Loads, merges and validates a dataset for an environment (the active one by default).
+ * @throws DatasetError listing every schema violation with its path
+ */
+export function loadDataset<N extends DatasetName>(
+  name: N,
+  environment: string = getActiveEnvironment().name,
+): Dataset<N> {
+  const cacheKey = `${environment}/${name}`;
+  if (cache.has(cacheKey)) {
+    return cache.get(cacheKey) as Dataset<N>;
+  }
+
+  const baseFile = findDataFile(DATA_DIR, name);
+  if (!baseFile) {
+    throw new DatasetError(
+      `Dataset "${name}" not found: expected ${name}.json or ${name}.yaml in ${DATA_DIR}`,
+    );
+  }
+  const overlayFile = findDataFile(
+    path.join(DATA_DIR, 'overlays', environment),
+    name,
+  );
+  const raw = overlayFile
+    ? deepMerge(readDataFile(baseFile), readDataFile(overlayFile))
+    : readDataFile(baseFile);
+
+  const result = datasetSchemas[name].safeParse(raw);
+  if (!result.success) {
+    const sources = overlayFile ? `${baseFile} + ${overlayFile}` : baseFile;
+    const issues = result.error.issues
+      .map(
+        (issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      )
+      .join('\n');
+    throw new DatasetError(
+      `Invalid dataset "${name}" (${sources}):\n${issues}`,
+    );
+  }
+
+  cache.set(cacheKey, result.data);
+  return result.data as Dataset<N>;
+}
@@ -0,0 +1,372 @@
+import { z } from 'zod';
+
+import {
+  type FormData,
+  type FormFieldName,
+} from '../pages/components/FormComponent';
+import { type GeoIpLocation, type GeoIpStubResponse } from './geoIp';
+
+/**
+ * Schemas for the datasets in data/.
+ * Each schema is checked against the TypeScript type it feeds (`satisfies`),
+ * so a type change that the schema does not follow fails the type-check.
+ */
+
+const nonEmpty = z.string().min(1, 'must not be empty');
+
+const regexSource = nonEmpty.refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'must be a valid regular expression');
+
+const fieldValuesSchema = z
+  .object({ zip: z.string(), email: z.string(), phone: z.string() })
+  .strict() satisfies z.ZodType<Required<FormData>>;
+
+const fieldExamplesSchema = z
+  .object({ valid: z.array(z.string()), invalid: z.array(z.string()) })
+  .strict();
+
+export const formDatasetSchema = z
+  .object({
+    validFormData: fieldValuesSchema,
+    formInstanceIndexes: z.array(z.number().int().nonnegative()).min(1),
+    examples: z
+      .object({
+        zip: fieldExamplesSchema,
+        email: fieldExamplesSchema,
+        phone: fieldExamplesSchema,
+      })
+      .strict() satisfies z.ZodType<
+      Record<FormFieldName, { valid: string[]; invalid: string[] }>
+    >,
+    /** Which same-origin requests are lead submissions (utils/submissionInterceptor.ts) */
+    submission: z
+      .object({
+        /** Regular expression (case-insensitive) matched against the request path */
+        pathPattern: regexSource,
+        /** Regular expressions (case-insensitive) for requests that are not leads, e.g. analytics */
+        ignore: z.array(regexSource),
+      })
+      .strict(),
+  })
+  .strict();
+
+const fieldMessagesSchema = z
+  .object({ empty: nonEmpty, invalid: nonEmpty })
+  .strict();
+
+export const errorMessagesSchema = z
+  .object({
+    zip: fieldMessagesSchema,
+    email: fieldMessagesSchema,
+    phone: fieldMessagesSchema,
+  })
+  .strict() satisfies z.ZodType<
+  Record<FormFieldName, { empty: string; invalid: string }>
+>;
+
+export const sliderDatasetSchema = z
+  .object({
+    minSlides: z.number().int().positive(),
+    imageExtension: z.string().regex(/^\.\w+$/, 'must look like ".jpg"'),
+    autoplay: z
+      .object({
+        /** Time between two automatic slide changes */
+        intervalMs: z.number().int().positive(),
+        /** Allowed deviation, also the step used to observe the slider */
+        toleranceMs: z.number().int().positive(),
+      })
+      .strict(),
+  })
+  .strict();
+
+/** "City, ST" as shown by the location component */
+export const CITY_AND_STATE_PATTERN = /^[^,]+, [A-Z]{2}$/;
+
+const geoIpLocationSchema = z
+  .object({
+    city: nonEmpty,
+    state: z.string().regex(/^[A-Z]{2}$/, 'must be a two-letter state code'),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    timezone: nonEmpty.optional(),
+  })
+  .strict() satisfies z.ZodType<GeoIpLocation>;
+
+const locationScenarioSchema = z
+  .object({
+    name: nonEmpty,
+    /** Answer of the stubbed geo-IP lookup */
+    geoIp: z.union([
+      geoIpLocationSchema,
+      z.enum(['error', 'timeout']),
+    ]) satisfies z.ZodType<GeoIpStubResponse>,
+    /** Browser position (permission granted), or "denied" */
+    geolocation: z.union([
+      z
+        .object({
+          latitude: z.number().min(-90).max(90),
+          longitude: z.number().min(-180).max(180),
+        })
+        .strict(),
+      z.literal('denied'),
+    ]),
+    timezoneId: nonEmpty,
+    locale: nonEmpty,
+    /** "City, ST" the page should show; omitted when detection should fall back */
+    expected: z
+      .string()
+      .regex(CITY_AND_STATE_PATTERN, 'must look like "City, ST"')
+      .optional(),
+  })
+  .strict();
+
+export const locationDatasetSchema = z
+  .object({
+    geoIp: z
+      .object({
+        /** Regular expression matching the page's geo-IP lookup URLs, anchored to the lookup hosts */
+        urlPattern: regexSource,
+      })
+      .strict(),
+    /** Text shown when the location cannot be detected; unset until confirmed on the live page */
+    fallback: nonEmpty.optional(),
+    scenarios: z.array(locationScenarioSchema).min(1),
+  })
+  .strict();
+
+/** Optional lightGallery controls (zoom and fullscreen plugins) */
+export const LIGHTBOX_CONTROLS = ['zoom', 'fullscreen'] as const;
+
+export const reviewsDatasetSchema = z
+  .object({
+    labels: z.object({ collapsed: nonEmpty, expanded: nonEmpty }).strict(),
+    minGalleryImages: z.number().int().nonnegative(),
+    /** Plugin controls the lightbox is expected to show */
+    lightboxControls: z.array(z.enum(LIGHTBOX_CONTROLS)),
+    /** CSS selectors of a review and its fields, relative to the review */
+    selectors: z
+      .object({
+        review: nonEmpty,
+        author: nonEmpty,
+        rating: nonEmpty,
+        date: nonEmpty,
+        text: nonEmpty,
+      })
+      .strict(),
+    content: z
+      .object({
+        /** Fewer reviews than this means some were dropped from the page */
+        minReviews: z.number().int().positive(),
+        /** Reviews held back in .reviewFull until "Show more" */
+        minExtraReviews: z.number().int().nonnegative(),
+        rating: z
+          .object({ min: z.number(), max: z.number() })
+          .strict()
+          .refine((rating) => rating.min <= rating.max, {
+            message: 'rating.min must not exceed rating.max',
+          }),
+      })
+      .strict(),
+  })
+  .strict();
+
+export const requirementsDatasetSchema = z
+  .object({
+    requirements: z
+      .array(
+        z
+          .object({
+            id: z.string().regex(/^REQ-\d+$/, 'must look like "REQ-1"'),
+            title: nonEmpty,
+          })
+          .strict(),
+      )
+      .min(1),
+  })
+  .strict();
+
+export const DEFECT_SEVERITIES = ['Low', 'Medium', 'High', 'Critical'] as const;
+export const DEFECT_STATUSES = ['open', 'fixed', 'wont-fix'] as const;
+
+export const defectsDatasetSchema = z
+  .object({
+    defects: z
+      .array(
+        z
+          .object({
+            id: z
+              .string()
+              .regex(/^DEFECT-\d{3}$/, 'must look like "DEFECT-001"'),
+            title: nonEmpty,
+            severity: z.enum(DEFECT_SEVERITIES),
+            status: z.enum(DEFECT_STATUSES),
+            description: nonEmpty,
+            expected: nonEmpty,
+            actual: nonEmpty,
+          })
+          .strict(),
+      )
+      .refine(
+        (defects) =>
+          new Set(defects.map((defect) => defect.id)).size === defects.length,
+        'defect IDs must be unique',
+      ),
+  })
+  .strict();
+
+/** Rules run by the in-page accessibility audit (utils/accessibility.ts) */
+export const A11Y_RULE_IDS = [
+  'input-label',
+  'error-description',
+  'button-name',
+  'link-name',
+  'image-alt',
+] as const;
+
+export const accessibilityDatasetSchema = z
+  .object({
+    /** Alt texts that do not describe the image, compared case-insensitively */
+    genericAltText: z.array(nonEmpty),
+    /** Known violations that are reported but do not fail the audit */
+    baseline: z.array(
+      z
+        .object({
+          rule: z.enum(A11Y_RULE_IDS),
+          /** CSS selector the offending element matches */
+          selector: nonEmpty,
+          reason: nonEmpty,
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+export const thankYouDatasetSchema = z
+  .object({
+    /** Regular expression (case-insensitive) matching the thank-you page URL */
+    urlPattern: regexSource,
+    /** Phrases the confirmation must contain */
+    confirmationCopy: z.array(nonEmpty).min(1),
+    /** Regular expression (case-insensitive) finding a lead ID; group 1 is the ID */
+    leadIdPattern: regexSource,
+  })
+  .strict();
+
+/** Issues recorded by the asset guard (utils/assetGuard.ts) */
+export const ASSET_ISSUE_KINDS = [
+  'console',
+  'pageerror',
+  'request',
+  'image',
+] as const;
+
+export const assetGuardDatasetSchema = z
+  .object({
+    /** What issues outside the allowlist do: fail the test or only warn */
+    mode: z.enum(['fail', 'warn']),
+    /** Known issues reported as warnings */
+    allowlist: z.array(
+      z
+        .object({
+          kind: z.enum(ASSET_ISSUE_KINDS),
+          /** Regular expression matched against the issue message and URL */
+          pattern: regexSource,
+          reason: nonEmpty,
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+/** Kinds of hostile values in the input corpus (data/hostileInputs.yaml) */
+export const HOSTILE_INPUT_CATEGORIES = [
+  'html',
+  'script',
+  'sql',
+  'encoding',
+  'long',
+  'null-byte',
+  'rtl',
+] as const;
+
+export const hostileInputsDatasetSchema = z
+  .object({
+    inputs: z
+      .array(
+        z
+          .object({
+            /** Unique name, also the probe ID carried by markup payloads */
+            name: nonEmpty,
+            category: z.enum(HOSTILE_INPUT_CATEGORIES),
+            value: z.string().optional(),
+            /** Builds the value by repeating `text` `count` times, for very long values */
+            repeat: z
+              .object({
+                text: nonEmpty,
+                count: z.number().int().positive(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .refine((input) => (input.value === undefined) !== !input.repeat, {
+            message: 'Set exactly one of value and repeat',
+          }),
+      )
+      .min(1)
+      .refine(
+        (inputs) =>
+          new Set(inputs.map((input) => input.name)).size === inputs.length,
+        { message: 'Input names must be unique' },
+      ),
+  })
+  .strict();
+
+/** Components with screenshot baselines (utils/visual.ts) */
+export const VISUAL_COMPONENTS = [
+  'slider',
+  'reviews',
+  'form',
+  'location',
+] as const;
+
+const visualToleranceSchema = z
+  .object({
+    /** Share of pixels allowed to differ, 0 to 1 */
+    maxDiffPixelRatio: z.number().min(0).max(1),
+    /** Per-pixel color distance tolerated in YIQ space, 0 to 1 */
+    threshold: z.number().min(0).max(1),
+    /** Extra selectors masked in this component's screenshots */
+    mask: z.array(nonEmpty).optional(),
+  })
+  .strict();
+
+export const visualDatasetSchema = z
+  .object({
+    /** Dynamic regions masked in every screenshot */
+    mask: z.array(nonEmpty),
+    components: z
+      .object({
+        slider: visualToleranceSchema,
+        reviews: visualToleranceSchema,
+        form: visualToleranceSchema,
+        location: visualToleranceSchema,
+      })
+      .strict(),
+  })
+  .strict();
+
+export type FormDataset = z.infer<typeof formDatasetSchema>;
+export type ErrorMessages = z.infer<typeof errorMessagesSchema>;
+export type SliderDataset = z.infer<typeof sliderDatasetSchema>;
+export type ReviewsDataset = z.infer<typeof reviewsDatasetSchema>;
+export type RequirementsDataset = z.infer<typeof requirementsDatasetSchema>;
+export type Defect = z.infer<typeof defectsDatasetSchema>['defects'][number];
+export type AccessibilityDataset = z.infer<typeof accessibilityDatasetSchema>;
+export type VisualDataset = z.infer<typeof visualDatasetSchema>;
@@ -0,0 +1,38 @@
+import { loadDataset } from './dataLoader';
+import { type Defect } from './dataSchemas';
+import { DEFECT_ANNOTATION } from './traceability';
+
+/**
+ * Lookups in the known-defect registry (data/defects.json).
+ * Tests linked with `relatesTo('DEFECT-xxx')` to an open defect are expected to fail.
+ */
+
+export function getDefects(): Defect[] {
+  return loadDataset('defects').defects;
+}
+
+/**
+ * Finds a defect by ID.
+ * @throws Error when the ID is not in the registry, so typos do not go unnoticed
+ */
+export function getDefect(id: string): Defect {
+  const defect = getDefects().find((candidate) => candidate.id === id);
+  if (!defect) {
+    throw new Error(
+      `Unknown defect "${id}": add it to data/defects.json or fix the relatesTo() annotation`,
+    );
+  }
+  return defect;
+}
+
+/**
+ * Open defects linked to a test through its annotations.
+ */
+export function openDefectsFor(
+  annotations: { type: string; description?: string }[],
+): Defect[] {
+  return annotations
+    .filter((annotation) => annotation.type === DEFECT_ANNOTATION)
+    .map((annotation) => getDefect(annotation.description ?? ''))
+    .filter((defect) => defect.status === 'open');
+}
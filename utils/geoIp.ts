@@ -0,0 +1,136 @@
+import { type Page, type Route } from '@playwright/test';
+
+import { assetGuardFor } from './assetGuard';
+import { loadDataset } from './dataLoader';
+
+/**
+ * A location returned by the stubbed geo-IP lookup.
+ */
+export interface GeoIpLocation {
+  city: string;
+  /** Two-letter state code, e.g. "CA" */
+  state: string;
+  latitude?: number;
+  longitude?: number;
+  /** IANA time zone, e.g. "America/Los_Angeles" */
+  timezone?: string;
+}
+
+/**
+ * How geo-IP lookups are answered.
+ * - a location: 200 with that location
+ * - error: 500, the lookup fails
+ * - timeout: the request is aborted as timed out
+ */
+export type GeoIpStubResponse = GeoIpLocation | 'error' | 'timeout';
+
+/**
+ * Builds a lookup response that carries the field names of the common geo-IP
+ * services (ipapi.co, ip-api.com, ipinfo.io), so the page finds the city and state
+ * whichever of them it reads.
+ */
+export function geoIpResponseBody(
+  location: GeoIpLocation,
+): Record<string, string | number> {
+  const body: Record<string, string | number> = {
+    ip: '203.0.113.10',
+    city: location.city,
+    region: location.state,
+    region_code: location.state,
+    regionName: location.state,
+    state: location.state,
+    country: 'US',
+    country_code: 'US',
+    countryCode: 'US',
+  };
+  if (location.latitude !== undefined && location.longitude !== undefined) {
+    Object.assign(body, {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      lat: location.latitude,
+      lon: location.longitude,
+      loc: `${location.latitude},${location.longitude}`,
+    });
+  }
+  if (location.timezone) {
+    body.timezone = location.timezone;
+  }
+  return body;
+}
+
+/**
+ * Answers the page's geo-IP lookups through `page.route` so location detection gets a
+ * known input. The lookup URLs are matched by `geoIp.urlPattern` in data/location.json.
+ *
+ * @example
+ * const geoIp = await new GeoIpStub(page, { city: 'Austin', state: 'TX' }).start();
+ * await homePage.goto('/');
+ * expect(geoIp.lookups).toHaveLength(1);
+ */
+export class GeoIpStub {
+  private readonly page: Page;
+  private readonly urlPattern: RegExp;
+  private response: GeoIpStubResponse;
+  private readonly requestedUrls: string[] = [];
+  private readonly handler = (route: Route) => this.handle(route);
+
+  constructor(page: Page, response: GeoIpStubResponse) {
+    this.page = page;
+    this.urlPattern = new RegExp(loadDataset('location').geoIp.urlPattern, 'i');
+    this.response = response;
+  }
+
+  /**
+   * Starts answering lookups. Call before the page loads. Returns the stub for chaining.
+   */
+  async start(): Promise<this> {
+    await this.page.route(this.urlPattern, this.handler);
+    return this;
+  }
+
+  /**
+   * Stops answering lookups; they go to the real service again.
+   */
+  async stop(): Promise<void> {
+    await this.page.unroute(this.urlPattern, this.handler);
+  }
+
+  /**
+   * Changes how the following lookups are answered.
+   */
+  respondWith(response: GeoIpStubResponse): void {
+    this.response = response;
+  }
+
+  /**
+   * URLs of the lookups answered so far, oldest first.
+   */
+  get lookups(): string[] {
+    return [...this.requestedUrls];
+  }
+
+  private async handle(route: Route): Promise<void> {
+    this.requestedUrls.push(route.request().url());
+    if (typeof this.response === 'string') {
+      assetGuardFor(this.page).expectFailure(
+        route.request().url(),
+        `Geo-IP lookup stubbed with "${this.response}"`,
+      );
+    }
+    if (this.response === 'timeout') {
+      await route.abort('timedout');
+      return;
+    }
+    if (this.response === 'error') {
+      await route.fulfill({
+        status: 500,
+        json: { error: true, reason: 'Internal Server Error' },
+      });
+      return;
+    }
+    await route.fulfill({
+      status: 200,
+      json: geoIpResponseBody(this.response),
+    });
+  }
+}
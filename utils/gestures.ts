@@ -0,0 +1,144 @@
+import { type Locator, type Page } from '@playwright/test';
+
+/**
+ * Pointer gestures that work on touch devices and with a mouse.
+ * Playwright only offers taps on the touchscreen, so swipes on touch devices are
+ * dispatched as touch events on the element under the start point, like a real touch,
+ * and bubble up to the handlers (slick's `.slick-list`, lightGallery's `.lg-inner`);
+ * elsewhere they are mouse drags.
+ */
+
+export type SwipeDirection = 'left' | 'right';
+
+export interface SwipeOptions {
+  /** Swipe length as a share of the target's width, 0 to 1 (default 0.6) */
+  distance?: number;
+  /** Intermediate move events (default 10) */
+  steps?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Whether the page runs on a touch device (mobile projects set `hasTouch`).
+ */
+export async function isTouchDevice(page: Page): Promise<boolean> {
+  return await page.evaluate(() => navigator.maxTouchPoints > 0);
+}
+
+/**
+ * Builds the pointer path of a horizontal drag by `offsetX` pixels, centered on the target.
+ */
+async function dragPath(
+  target: Locator,
+  offsetX: number,
+  steps: number,
+): Promise<Point[]> {
+  const box = await target.boundingBox();
+  if (!box) {
+    throw new Error(`Cannot drag ${target}: it is not rendered`);
+  }
+  const y = box.y + box.height / 2;
+  const startX = box.x + box.width / 2 - offsetX / 2;
+  return Array.from({ length: steps + 1 }, (_, step) => ({
+    x: startX + (offsetX * step) / steps,
+    y,
+  }));
+}
+
+/**
+ * Drags horizontally across the target by `offsetX` pixels (negative to the left).
+ * Touch devices get a touch drag, other devices a mouse drag.
+ */
+export async function drag(
+  page: Page,
+  target: Locator,
+  offsetX: number,
+  { steps = 10 }: Pick<SwipeOptions, 'steps'> = {},
+): Promise<void> {
+  await target.waitFor({ state: 'visible' });
+  await target.scrollIntoViewIfNeeded();
+  const path = await dragPath(target, offsetX, steps);
+
+  if (!(await isTouchDevice(page))) {
+    await page.mouse.move(path[0].x, path[0].y);
+    await page.mouse.down();
+    for (const point of path.slice(1)) {
+      await page.mouse.move(point.x, point.y);
+    }
+    await page.mouse.up();
+    return;
+  }
+
+  // Plain touch points: Playwright builds the Touch objects, which page scripts cannot
+  // construct in WebKit. Slick reads pageX, so it is set alongside clientX.
+  const scroll = await page.evaluate(() => ({
+    x: window.scrollX,
+    y: window.scrollY,
+  }));
+  const touchAt = ({ x, y }: Point) => ({
+    identifier: 1,
+    clientX: x,
+    clientY: y,
+    pageX: x + scroll.x,
+    pageY: y + scroll.y,
+  });
+  // A touch keeps targeting the element it started on. Handlers sit on descendants of
+  // the component root, so the events have to start below them and bubble up.
+  const touched = await target.evaluateHandle((root, { x, y }) => {
+    const element = document.elementFromPoint(x, y);
+    return element && root.contains(element) ? element : null;
+  }, path[0]);
+  const touchTarget = touched.asElement();
+  if (!touchTarget) {
+    await touched.dispose();
+    throw new Error(
+      `Cannot touch ${target} at (${path[0].x}, ${path[0].y}): another element covers it`,
+    );
+  }
+  try {
+    const start = touchAt(path[0]);
+    await touchTarget.dispatchEvent('touchstart', {
+      touches: [start],
+      targetTouches: [start],
+      changedTouches: [start],
+    });
+    for (const point of path.slice(1)) {
+      const touch = touchAt(point);
+      await touchTarget.dispatchEvent('touchmove', {
+        touches: [touch],
+        targetTouches: [touch],
+        changedTouches: [touch],
+      });
+    }
+    await touchTarget.dispatchEvent('touchend', {
+      touches: [],
+      targetTouches: [],
+      changedTouches: [touchAt(path[path.length - 1])],
+    });
+  } finally {
+    await touched.dispose();
+  }
+}
+
+/**
+ * Swipes horizontally across the target: "left" moves content to the left
+ * (shows the next item), "right" shows the previous one.
+ */
+export async function swipe(
+  page: Page,
+  target: Locator,
+  direction: SwipeDirection,
+  { distance = 0.6, steps }: SwipeOptions = {},
+): Promise<void> {
+  await target.waitFor({ state: 'visible' });
+  const box = await target.boundingBox();
+  if (!box) {
+    throw new Error(`Cannot swipe ${target}: it is not rendered`);
+  }
+  const length = box.width * distance;
+  await drag(page, target, direction === 'left' ? -length : length, { steps });
+}
@@ -0,0 +1,377 @@
+import { test } from '@playwright/test';
+
+import {
+  type FieldErrorKind,
+  type FormFieldName,
+} from '../pages/components/FormComponent';
+
+/**
+ * Generative inputs for the zip, email and phone validators.
+ *
+ * Values are derived from the stated requirements:
+ * - zip: exactly 5 ASCII digits
+ * - email: a valid email pattern (local@domain.tld, local part up to 64 characters)
+ * - phone: exactly 10 ASCII digits
+ *
+ * Runs are reproducible: the seed comes from INPUT_SEED (or DEFAULT_SEED) and is
+ * printed with every failure. Failing inputs are shrunk to a minimal value.
+ */
+
+export type InputValidity = 'valid' | 'invalid';
+
+/**
+ * A generated value and the rule it exercises (e.g. "unicode-digits").
+ */
+export interface InputCase {
+  value: string;
+  category: string;
+}
+
+export interface GeneratorOptions {
+  seed?: number;
+  /** Number of generated values, not counting examples */
+  count?: number;
+  /** Fixed regression values run before the generated ones (data/form.json) */
+  examples?: string[];
+  /** Checks spent on shrinking a failure (default DEFAULT_SHRINK_ATTEMPTS) */
+  maxShrinkAttempts?: number;
+}
+
+export const DEFAULT_SEED = 20240601;
+export const DEFAULT_CASE_COUNT = 8;
+
+/**
+ * Checks spent on shrinking one failure. Each check navigates and fills the form, so
+ * the budget stays well inside the test timeout.
+ */
+export const DEFAULT_SHRINK_ATTEMPTS = 10;
+
+const EMAIL_PATTERN =
+  /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/;
+
+/**
+ * The requirement each field is checked against.
+ */
+export const fieldRules: Record<FormFieldName, (value: string) => boolean> = {
+  zip: (value) => /^[0-9]{5}$/.test(value),
+  email: (value) =>
+    EMAIL_PATTERN.test(value) &&
+    !value.includes('..') &&
+    value.split('@')[0].length <= 64 &&
+    value.length <= 254,
+  phone: (value) => /^[0-9]{10}$/.test(value),
+};
+
+/**
+ * The message an invalid value should show: the empty-field message for '' (the
+ * "empty" category, zero-length "too-short" values), the invalid one otherwise.
+ */
+export function expectedErrorKind(value: string): FieldErrorKind {
+  return value === '' ? 'empty' : 'invalid';
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32).
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  string(length: number, alphabet: string): string {
+    return Array.from({ length }, () => this.pick(alphabet.split(''))).join('');
+  }
+}
+
+const DIGITS = '0123456789';
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+// Arabic-Indic, Devanagari and full-width digits: digits, but not ASCII digits
+const UNICODE_DIGITS = ['٠١٢٣٤٥٦٧٨٩', '०१२३४५६७८९', '０１２３４５６７８９'];
+const WHITESPACE = [' ', '\t', '\u00a0', '\u2003'];
+
+type CaseBuilder = (random: SeededRandom) => string;
+
+function digitsCases(length: number): Record<string, CaseBuilder> {
+  return {
+    'too-short': (random) => random.string(random.int(0, length - 1), DIGITS),
+    'too-long': (random) =>
+      random.string(random.int(length + 1, length + 4), DIGITS),
+    letters: (random) => random.string(length, LETTERS),
+    'mixed-letters': (random) => {
+      const digits = random.string(length, DIGITS).split('');
+      digits[random.int(0, length - 1)] = random.pick(LETTERS.split(''));
+      return digits.join('');
+    },
+    separators: (random) => {
+      const digits = random.string(length, DIGITS);
+      const at = random.int(1, length - 1);
+      return `${digits.slice(0, at)}${random.pick(['-', '.', ' ', '/'])}${digits.slice(at)}`;
+    },
+    'unicode-digits': (random) =>
+      random.string(length, random.pick(UNICODE_DIGITS)),
+    'whitespace-padding': (random) => {
+      const pad = random.pick(WHITESPACE);
+      return random.pick([
+        `${pad}${random.string(length, DIGITS)}`,
+        `${random.string(length, DIGITS)}${pad}`,
+      ]);
+    },
+    'very-long': (random) => random.string(random.int(256, 1024), DIGITS),
+    'signed-or-decimal': (random) =>
+      random.pick([
+        `-${random.string(length - 1, DIGITS)}`,
+        `+${random.string(length - 1, DIGITS)}`,
+        `${random.string(length - 2, DIGITS)}.0`,
+      ]),
+    empty: () => '',
+  };
+}
+
+function emailLocal(random: SeededRandom): string {
+  return random.string(random.int(1, 12), `${LETTERS}${DIGITS}`);
+}
+
+function emailDomain(random: SeededRandom): string {
+  return `${random.string(random.int(2, 10), LETTERS)}.${random.pick(['com', 'org', 'net', 'io', 'co.uk'])}`;
+}
+
+const invalidCases: Record<FormFieldName, Record<string, CaseBuilder>> = {
+  zip: digitsCases(5),
+  phone: digitsCases(10),
+  email: {
+    'missing-at': (random) => `${emailLocal(random)}${emailDomain(random)}`,
+    'missing-local': (random) => `@${emailDomain(random)}`,
+    'missing-domain': (random) => `${emailLocal(random)}@`,
+    'missing-tld': (random) =>
+      `${emailLocal(random)}@${random.string(random.int(2, 10), LETTERS)}`,
+    'dot-after-at': (random) => `${emailLocal(random)}@.${emailDomain(random)}`,
+    'double-at': (random) => `${emailLocal(random)}@@${emailDomain(random)}`,
+    'double-dot': (random) =>
+      `${emailLocal(random)}..${emailLocal(random)}@${emailDomain(random)}`,
+    'inner-space': (random) =>
+      `${emailLocal(random)} ${emailLocal(random)}@${emailDomain(random)}`,
+    'whitespace-padding': (random) =>
+      `${random.pick(WHITESPACE)}${emailLocal(random)}@${emailDomain(random)}`,
+    'unicode-domain': (random) => `${emailLocal(random)}@ëxämple.cöm`,
+    'very-long': (random) =>
+      `${random.string(random.int(65, 1024), LETTERS)}@${emailDomain(random)}`,
+    empty: () => '',
+  },
+};
+
+const validCases: Record<FormFieldName, Record<string, CaseBuilder>> = {
+  zip: {
+    digits: (random) => random.string(5, DIGITS),
+    'leading-zeros': (random) => `00${random.string(3, DIGITS)}`,
+  },
+  phone: {
+    digits: (random) => `${random.int(2, 9)}${random.string(9, DIGITS)}`,
+    'leading-zero': (random) => `0${random.string(9, DIGITS)}`,
+  },
+  email: {
+    simple: (random) => `${emailLocal(random)}@${emailDomain(random)}`,
+    'dotted-local': (random) =>
+      `${emailLocal(random)}.${emailLocal(random)}@${emailDomain(random)}`,
+    'plus-tag': (random) =>
+      `${emailLocal(random)}+${emailLocal(random)}@${emailDomain(random)}`,
+  },
+};
+
+/**
+ * Seed for the current run: INPUT_SEED if set, DEFAULT_SEED otherwise.
+ */
+export function resolveSeed(seed?: number): number {
+  if (seed !== undefined) {
+    return seed;
+  }
+  const fromEnv = Number(process.env.INPUT_SEED);
+  return Number.isInteger(fromEnv) ? fromEnv : DEFAULT_SEED;
+}
+
+/**
+ * Generates values for a field, after the given examples. Categories are cycled so
+ * every rule is exercised before any repeats; the oracle guarantees each value's validity.
+ */
+export function generateInputs(
+  field: FormFieldName,
+  validity: InputValidity,
+  options: GeneratorOptions = {},
+): InputCase[] {
+  const seed = resolveSeed(options.seed);
+  const count = options.count ?? DEFAULT_CASE_COUNT;
+  const random = new SeededRandom(seed);
+  const builders = Object.entries(
+    validity === 'valid' ? validCases[field] : invalidCases[field],
+  );
+  const expectValid = validity === 'valid';
+
+  const cases: InputCase[] = (options.examples ?? []).map((value) => {
+    if (fieldRules[field](value) !== expectValid) {
+      throw new Error(
+        `Example ${describeInput(value)} is listed as ${validity} ${field} but the requirement says otherwise`,
+      );
+    }
+    return { value, category: 'example' };
+  });
+  const total = cases.length + count;
+  for (
+    let attempt = 0;
+    cases.length < total && attempt < count * 20;
+    attempt++
+  ) {
+    const [category, build] = builders[attempt % builders.length];
+    const value = build(random);
+    if (fieldRules[field](value) === expectValid) {
+      cases.push({ value, category });
+    }
+  }
+  return cases;
+}
+
+/**
+ * Smaller variants of a value: halves first, then chunk and single character removal,
+ * then non-ASCII characters replaced with ASCII ones.
+ */
+function* shrinkCandidates(value: string): Generator<string> {
+  if (value.length > 1) {
+    yield value.slice(0, Math.ceil(value.length / 2));
+    yield value.slice(Math.floor(value.length / 2));
+  }
+  for (
+    let chunk = Math.floor(value.length / 4);
+    chunk >= 1;
+    chunk = Math.floor(chunk / 2)
+  ) {
+    for (let start = 0; start + chunk <= value.length; start += chunk) {
+      yield value.slice(0, start) + value.slice(start + chunk);
+    }
+  }
+  const ascii = value.replace(/[^\x20-\x7e]/g, (char) =>
+    /\p{Nd}/u.test(char) ? '1' : ' ',
+  );
+  if (ascii !== value) {
+    yield ascii;
+  }
+}
+
+/**
+ * Shrinks a failing value while it stays in the same validity class and keeps failing.
+ */
+export async function shrinkInput(
+  field: FormFieldName,
+  value: string,
+  fails: (candidate: string) => Promise<boolean>,
+  maxAttempts: number = DEFAULT_SHRINK_ATTEMPTS,
+): Promise<{ value: string; attempts: number }> {
+  const validity = fieldRules[field](value);
+  let smallest = value;
+  let attempts = 0;
+  let improved = true;
+  while (improved && attempts < maxAttempts) {
+    improved = false;
+    for (const candidate of shrinkCandidates(smallest)) {
+      if (
+        candidate.length >= smallest.length ||
+        fieldRules[field](candidate) !== validity
+      ) {
+        continue;
+      }
+      attempts++;
+      if (await fails(candidate)) {
+        smallest = candidate;
+        improved = true;
+        break;
+      }
+      if (attempts >= maxAttempts) {
+        break;
+      }
+    }
+  }
+  return { value: smallest, attempts };
+}
+
+/**
+ * Describes a value with invisible and non-ASCII characters made readable.
+ */
+export function describeInput(value: string): string {
+  const escaped = JSON.stringify(value).replace(
+    /[^\x20-\x7e]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+  return escaped.length > 80
+    ? `${escaped.slice(0, 60)}..." (${value.length} chars)`
+    : escaped;
+}
+
+/**
+ * Runs a check against every generated value. The check throws (e.g. a failed
+ * `expect`) when the page does not behave as the requirement says.
+ * On failure the value is shrunk and the error names the seed to replay it.
+ *
+ * @example
+ * await checkProperty('zip', 'invalid', async (zip) => {
+ *   await homePage.goto('/');
+ *   await form.fillForm({ zip });
+ *   await form.expectFieldError('zip', expectedErrorKind(zip));
+ * });
+ */
+export async function checkProperty(
+  field: FormFieldName,
+  validity: InputValidity,
+  check: (value: string) => Promise<void>,
+  options: GeneratorOptions = {},
+): Promise<void> {
+  const seed = resolveSeed(options.seed);
+  // Tests expected to fail (open known defect) report the original value: shrinking
+  // would only spend the timeout on checks that keep failing
+  const maxShrinkAttempts =
+    test.info().expectedStatus === 'failed'
+      ? 0
+      : (options.maxShrinkAttempts ?? DEFAULT_SHRINK_ATTEMPTS);
+  const fails = async (value: string) =>
+    check(value).then(
+      () => false,
+      () => true,
+    );
+
+  for (const input of generateInputs(field, validity, { ...options, seed })) {
+    const error = await check(input.value).then(
+      () => undefined,
+      (caught: unknown) => caught,
+    );
+    if (error === undefined) {
+      continue;
+    }
+    const shrunk = await shrinkInput(
+      field,
+      input.value,
+      fails,
+      maxShrinkAttempts,
+    );
+    const cause = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `${validity} ${field} "${input.category}" case failed (seed ${seed}, replay with INPUT_SEED=${seed}).\n` +
+        `  Original: ${describeInput(input.value)}\n` +
+        `  Shrunk:   ${describeInput(shrunk.value)} after ${shrunk.attempts} attempt(s)\n` +
+        `  Cause: ${cause}`,
+    );
+  }
+}
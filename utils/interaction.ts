@@ -0,0 +1,147 @@
+import { expect, type Locator, type Page } from '@playwright/test';
+
+/**
+ * How components drive the page: mouse clicks, or the keyboard only
+ * (Tab to reach a control, then Enter / Space / arrow keys / Escape).
+ */
+export const INTERACTION_MODES = ['mouse', 'keyboard'] as const;
+export type InteractionMode = (typeof INTERACTION_MODES)[number];
+
+/** Key that activates a control in keyboard mode */
+export type ActivationKey = 'Enter' | 'Space';
+
+/** Upper bound on Tab presses when looking for a control */
+const MAX_TAB_PRESSES = 200;
+
+/**
+ * Interaction strategy shared by the components.
+ * Mouse mode clicks and fills; keyboard mode only uses the keys a keyboard user has.
+ */
+export class Interaction {
+  constructor(
+    private readonly page: Page,
+    readonly mode: InteractionMode = 'mouse',
+  ) {}
+
+  get isKeyboard(): boolean {
+    return this.mode === 'keyboard';
+  }
+
+  /**
+   * Resolves the index of the focused element among the given elements, -1 if none.
+   */
+  private async focusedIndex(targets: Locator[]): Promise<number> {
+    const states = await Promise.all(
+      targets.map((target) =>
+        target.evaluate((element) => element === document.activeElement),
+      ),
+    );
+    return states.indexOf(true);
+  }
+
+  /**
+   * Presses Tab until the target has focus.
+   * @throws Error when the target cannot be reached with Tab
+   */
+  async focusByTab(target: Locator): Promise<void> {
+    await target.waitFor({ state: 'visible' });
+    for (let presses = 0; presses <= MAX_TAB_PRESSES; presses++) {
+      if ((await this.focusedIndex([target])) === 0) return;
+      await this.page.keyboard.press('Tab');
+    }
+    throw new Error(
+      `Element is not reachable with Tab after ${MAX_TAB_PRESSES} presses: ${target}`,
+    );
+  }
+
+  /**
+   * Clicks the target, or tabs to it and presses the activation key.
+   */
+  async activate(target: Locator, key: ActivationKey = 'Enter'): Promise<void> {
+    if (!this.isKeyboard) {
+      await target.click();
+      return;
+    }
+    await this.focusByTab(target);
+    await this.page.keyboard.press(key);
+  }
+
+  /**
+   * Fills an input, or tabs to it, clears it and types the value.
+   */
+  async fill(input: Locator, value: string): Promise<void> {
+    if (!this.isKeyboard) {
+      await input.fill(value);
+      return;
+    }
+    await this.focusByTab(input);
+    await this.page.keyboard.press('End');
+    await this.page.keyboard.press('Shift+Home');
+    await this.page.keyboard.press('Backspace');
+    if (value) {
+      await this.page.keyboard.type(value);
+    }
+  }
+
+  /**
+   * Closes an overlay with its close control, or with Escape.
+   */
+  async dismiss(closeControl: Locator): Promise<void> {
+    if (!this.isKeyboard) {
+      await closeControl.click();
+      return;
+    }
+    await this.page.keyboard.press('Escape');
+  }
+
+  // ============================================
+  // Focus Assertions
+  // ============================================
+
+  /**
+   * Asserts that the target has focus and that the focus is visible:
+   * it matches :focus-visible and draws an outline or box-shadow.
+   */
+  async expectFocusVisible(target: Locator): Promise<void> {
+    await expect(target).toBeFocused();
+    const indicator = await target.evaluate((element) => {
+      const style = window.getComputedStyle(element);
+      return {
+        focusVisible: element.matches(':focus-visible'),
+        outline:
+          style.outlineStyle !== 'none' && parseFloat(style.outlineWidth) > 0,
+        boxShadow: style.boxShadow !== 'none',
+      };
+    });
+    expect(
+      indicator.focusVisible && (indicator.outline || indicator.boxShadow),
+      `Focus indicator of ${target}: ${JSON.stringify(indicator)}`,
+    ).toBe(true);
+  }
+
+  /**
+   * Asserts that Tab reaches the targets in the given order.
+   * Starts from the current focus; elements between the targets are allowed.
+   */
+  async expectFocusOrder(targets: Locator[]): Promise<void> {
+    let reached = -1;
+    for (
+      let presses = 0;
+      presses <= MAX_TAB_PRESSES && reached < targets.length - 1;
+      presses++
+    ) {
+      await this.page.keyboard.press('Tab');
+      const index = await this.focusedIndex(targets);
+      if (index === -1) continue;
+      expect(
+        index,
+        `Tab reached target #${index} (${targets[index]}) while expecting #${reached + 1} (${targets[reached + 1]})`,
+      ).toBe(reached + 1);
+      reached = index;
+    }
+    expect(
+      reached,
+      `Only ${reached + 1} of ${targets.length} targets were reached with Tab`,
+    ).toBe(targets.length - 1);
+  }
+}
@@ -0,0 +1,352 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { expect, test, type Locator, type Page } from '@playwright/test';
+
+import {
+  getActiveEnvironment,
+  type PerformanceBudgets,
+} from '../config/environments';
+
+/**
+ * Page performance metrics read from the browser timing APIs (Navigation Timing,
+ * Resource Timing, Largest Contentful Paint, Layout Instability) and checked against
+ * the budgets of the active environment profile.
+ * LCP and layout shifts are Chromium-only: other browsers report them as null.
+ */
+
+/** Where every run appends its metrics, one JSON object per line */
+export const PERFORMANCE_HISTORY_FILE = path.resolve(
+  __dirname,
+  '..',
+  'reports',
+  'performance',
+  'history.jsonl',
+);
+
+export interface NavigationMetrics {
+  ttfbMs: number;
+  domContentLoadedMs: number;
+  /** 0 while the load event has not finished */
+  loadMs: number;
+}
+
+export interface ImageTiming {
+  /** Component the image belongs to, e.g. "slider" */
+  component: string;
+  src: string;
+  /** Request start to response end, null when the image was not loaded */
+  durationMs: number | null;
+  /** 0 for cross-origin images without Timing-Allow-Origin */
+  transferBytes: number;
+}
+
+export interface LayoutShiftMeasurement {
+  /** What was measured, e.g. "slide-transition" */
+  name: string;
+  /** Sum of all shifts in the window, null when the browser does not report shifts */
+  totalShift: number | null;
+  /** Sum of the shifts not caused by recent input; this one is budgeted */
+  unexpectedShift: number | null;
+  durationMs: number;
+}
+
+export interface PerformanceReport {
+  url: string;
+  environment: string;
+  project: string;
+  test: string;
+  timestamp: string;
+  navigation: NavigationMetrics;
+  lcpMs: number | null;
+  cls: number | null;
+  transferBytes: number;
+  images: ImageTiming[];
+  layoutShifts: LayoutShiftMeasurement[];
+}
+
+export interface BudgetViolation {
+  metric: string;
+  value: number;
+  budget: number;
+}
+
+/** A buffered LCP or layout-shift entry; LCP entries have no value */
+interface TimedEntry {
+  value: number;
+  hadRecentInput: boolean;
+  startTime: number;
+}
+
+/**
+ * Reads buffered entries of a performance entry type. Resolves to null when the
+ * browser does not support the type. Runs in the page.
+ */
+async function readBufferedEntries(
+  page: Page,
+  type: 'largest-contentful-paint' | 'layout-shift',
+): Promise<TimedEntry[] | null> {
+  return await page.evaluate(async (entryType) => {
+    if (!PerformanceObserver.supportedEntryTypes.includes(entryType)) {
+      return null;
+    }
+    return await new Promise<TimedEntry[]>((resolve) => {
+      const observer = new PerformanceObserver((list) => {
+        observer.disconnect();
+        resolve(
+          list.getEntries().map((entry) => {
+            const shift = entry as PerformanceEntry & {
+              value?: number;
+              hadRecentInput?: boolean;
+            };
+            return {
+              value: shift.value ?? 0,
+              hadRecentInput: shift.hadRecentInput ?? false,
+              startTime: entry.startTime,
+            };
+          }),
+        );
+      });
+      observer.observe({ type: entryType, buffered: true });
+      // No buffered entries: the callback never fires
+      setTimeout(() => {
+        observer.disconnect();
+        resolve([]);
+      }, 100);
+    });
+  }, type);
+}
+
+/**
+ * Collects performance metrics of one page and checks them against budgets.
+ * Layout shift measurements taken during the test are kept for the report.
+ */
+export class PerformanceMonitor {
+  private readonly layoutShifts: LayoutShiftMeasurement[] = [];
+
+  constructor(private readonly page: Page) {}
+
+  /**
+   * Reads Navigation Timing of the current document.
+   */
+  async getNavigationMetrics(): Promise<NavigationMetrics> {
+    return await this.page.evaluate(() => {
+      const [entry] = performance.getEntriesByType(
+        'navigation',
+      ) as PerformanceNavigationTiming[];
+      return {
+        ttfbMs: Math.round(entry.responseStart - entry.requestStart),
+        domContentLoadedMs: Math.round(entry.domContentLoadedEventEnd),
+        loadMs: Math.round(entry.loadEventEnd),
+      };
+    });
+  }
+
+  /**
+   * Bytes transferred for the document and every resource loaded so far.
+   */
+  async getTransferBytes(): Promise<number> {
+    return await this.page.evaluate(() =>
+      (
+        [
+          ...performance.getEntriesByType('navigation'),
+          ...performance.getEntriesByType('resource'),
+        ] as PerformanceResourceTiming[]
+      ).reduce(
+        (total, entry) => total + (entry.transferSize || entry.encodedBodySize),
+        0,
+      ),
+    );
+  }
+
+  /**
+   * Time of the latest Largest Contentful Paint candidate, null when unsupported.
+   */
+  async getLargestContentfulPaint(): Promise<number | null> {
+    const entries = await readBufferedEntries(
+      this.page,
+      'largest-contentful-paint',
+    );
+    if (entries === null) return null;
+    const last = entries[entries.length - 1];
+    return last ? Math.round(last.startTime) : 0;
+  }
+
+  /**
+   * Cumulative Layout Shift since navigation (shifts after input excluded),
+   * null when unsupported.
+   */
+  async getCumulativeLayoutShift(): Promise<number | null> {
+    const entries = await readBufferedEntries(this.page, 'layout-shift');
+    if (entries === null) return null;
+    return entries
+      .filter((entry) => !entry.hadRecentInput)
+      .reduce((total, entry) => total + entry.value, 0);
+  }
+
+  /**
+   * Load time of every image inside the given locator, matched to its Resource Timing
+   * entry through `currentSrc`. Images that were not loaded (lazy, hidden slides) get
+   * a null duration.
+   */
+  async getImageTimings(
+    component: string,
+    images: Locator,
+  ): Promise<ImageTiming[]> {
+    const timings = await images.evaluateAll((elements) => {
+      const sources = elements
+        .flatMap((element) =>
+          element instanceof HTMLImageElement
+            ? [element]
+            : Array.from(element.querySelectorAll('img')),
+        )
+        .map((image) => image.currentSrc || image.src)
+        .filter(Boolean);
+      return Array.from(new Set(sources)).map((src) => {
+        const entry = performance.getEntriesByName(src, 'resource')[0] as
+          | PerformanceResourceTiming
+          | undefined;
+        return {
+          src,
+          durationMs: entry
+            ? Math.round(entry.responseEnd - entry.startTime)
+            : null,
+          transferBytes: entry
+            ? entry.transferSize || entry.encodedBodySize
+            : 0,
+        };
+      });
+    });
+    return timings.map((timing) => ({ component, ...timing }));
+  }
+
+  /**
+   * Runs an action and measures the layout shift it causes, including the shifts of
+   * the transitions it starts. The measurement is added to the report.
+   */
+  async measureLayoutShift(
+    name: string,
+    action: () => Promise<void>,
+  ): Promise<LayoutShiftMeasurement> {
+    const start = await this.page.evaluate(() => performance.now());
+    await action();
+    const end = await this.page.evaluate(() => performance.now());
+
+    const entries = await readBufferedEntries(this.page, 'layout-shift');
+    const inWindow = entries?.filter((entry) => entry.startTime >= start);
+    const measurement: LayoutShiftMeasurement = {
+      name,
+      totalShift: inWindow
+        ? inWindow.reduce((total, entry) => total + entry.value, 0)
+        : null,
+      unexpectedShift: inWindow
+        ? inWindow
+            .filter((entry) => !entry.hadRecentInput)
+            .reduce((total, entry) => total + entry.value, 0)
+        : null,
+      durationMs: Math.round(end - start),
+    };
+    this.layoutShifts.push(measurement);
+    return measurement;
+  }
+
+  /**
+   * Collects every page metric, plus the load times of the given images.
+   * Waits for the load event so the navigation metrics are complete.
+   * @param images Image locators per component, e.g. `{ slider: ... }`
+   */
+  async collect(
+    images: Record<string, Locator> = {},
+  ): Promise<PerformanceReport> {
+    await this.page.waitForLoadState('load');
+    const imageTimings = await Promise.all(
+      Object.entries(images).map(([component, locator]) =>
+        this.getImageTimings(component, locator),
+      ),
+    );
+    const info = test.info();
+    return {
+      url: this.page.url(),
+      environment: getActiveEnvironment().name,
+      project: info.project.name,
+      test: info.titlePath.join(' › '),
+      timestamp: new Date().toISOString(),
+      navigation: await this.getNavigationMetrics(),
+      lcpMs: await this.getLargestContentfulPaint(),
+      cls: await this.getCumulativeLayoutShift(),
+      transferBytes: await this.getTransferBytes(),
+      images: imageTimings.flat(),
+      layoutShifts: [...this.layoutShifts],
+    };
+  }
+
+  /**
+   * Compares a report with budgets. Metrics the browser does not report are skipped.
+   */
+  findBudgetViolations(
+    report: PerformanceReport,
+    budgets: PerformanceBudgets = getActiveEnvironment().performance,
+  ): BudgetViolation[] {
+    const checks: [string, number | null, number][] = [
+      ['ttfbMs', report.navigation.ttfbMs, budgets.ttfbMs],
+      [
+        'domContentLoadedMs',
+        report.navigation.domContentLoadedMs,
+        budgets.domContentLoadedMs,
+      ],
+      ['loadMs', report.navigation.loadMs, budgets.loadMs],
+      ['lcpMs', report.lcpMs, budgets.lcpMs],
+      ['cls', report.cls, budgets.cls],
+      ['transferBytes', report.transferBytes, budgets.transferBytes],
+      ...report.images.map((image): [string, number | null, number] => [
+        `imageLoadMs (${image.component}: ${image.src})`,
+        image.durationMs,
+        budgets.imageLoadMs,
+      ]),
+      ...report.layoutShifts.map((shift): [string, number | null, number] => [
+        `transitionCls (${shift.name})`,
+        shift.unexpectedShift,
+        budgets.transitionCls,
+      ]),
+    ];
+    return checks
+      .filter(
+        (check): check is [string, number, number] =>
+          check[1] !== null && check[1] > check[2],
+      )
+      .map(([metric, value, budget]) => ({ metric, value, budget }));
+  }
+
+  /**
+   * Attaches the report to the test and appends it to the run history
+   * (reports/performance/history.jsonl) for trends across runs.
+   */
+  async saveReport(report: PerformanceReport): Promise<void> {
+    await test.info().attach('performance.json', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+    fs.mkdirSync(path.dirname(PERFORMANCE_HISTORY_FILE), { recursive: true });
+    fs.appendFileSync(PERFORMANCE_HISTORY_FILE, `${JSON.stringify(report)}\n`);
+  }
+
+  /**
+   * Saves the report and asserts that no metric exceeds the active profile's budgets.
+   */
+  async expectWithinBudgets(
+    report: PerformanceReport,
+    budgets: PerformanceBudgets = getActiveEnvironment().performance,
+  ): Promise<void> {
+    await this.saveReport(report);
+    const violations = this.findBudgetViolations(report, budgets);
+    expect(
+      violations,
+      `Performance budgets exceeded (${report.environment} profile):\n${violations
+        .map(
+          (violation) =>
+            `  ${violation.metric}: ${violation.value} > ${violation.budget}`,
+        )
+        .join('\n')}`,
+    ).toEqual([]);
+  }
+}
@@ -0,0 +1,165 @@
+import { expect, type Dialog, type Page } from '@playwright/test';
+
+/**
+ * Detects hostile input that the page reflects without escaping. The payloads in
+ * data/hostileInputs.yaml carry two probes:
+ * - a `data-qa-probe="<name>"` attribute: found on an element, the markup was parsed
+ * - a `__qaProbe('<name>')` call: recorded by an in-page hook, the script ran
+ * Event handler and `javascript:` attributes calling the probe are reported even when
+ * they have not fired yet, and every dialog (alert, confirm, prompt) is reported and
+ * dismissed.
+ */
+
+export const PROBE_ATTRIBUTE = 'data-qa-probe';
+
+export type ReflectionKind = 'element' | 'attribute' | 'script' | 'dialog';
+
+export interface Reflection {
+  kind: ReflectionKind;
+  /** The reflected markup, the probe that ran or the dialog message */
+  detail: string;
+  /** Step the scan ran after, e.g. "zip: html-tag" */
+  step: string;
+}
+
+/** Globals the probe hook adds to the page */
+interface ProbeWindow {
+  __qaProbe?: (name: string) => void;
+  __qaProbeHits?: string[];
+}
+
+/**
+ * Records probe calls in the page. Runs in the page.
+ */
+function installProbeHook(): void {
+  const probeWindow = window as unknown as ProbeWindow;
+  probeWindow.__qaProbeHits = probeWindow.__qaProbeHits ?? [];
+  probeWindow.__qaProbe = (name: string) => {
+    probeWindow.__qaProbeHits?.push(String(name));
+  };
+}
+
+/**
+ * Scans one page for reflected probes. Install it before the hostile input is
+ * entered, then scan after each step.
+ *
+ * @example
+ * const reflections = await new ReflectionDetector(page).install();
+ * await form.fillForm(data, { afterStep: reflections.scanAfter('html-tag') });
+ * reflections.expectNoReflections();
+ */
+export class ReflectionDetector {
+  private readonly page: Page;
+  private readonly found: Reflection[] = [];
+  private readonly dialogs: string[] = [];
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Adds the probe hook to the current page and every page loaded after it, and starts
+   * catching dialogs. Returns the detector for chaining.
+   */
+  async install(): Promise<this> {
+    await this.page.addInitScript(installProbeHook);
+    await this.page.evaluate(installProbeHook);
+    this.page.on('dialog', (dialog) => void this.onDialog(dialog));
+    return this;
+  }
+
+  /**
+   * Reflections found so far, oldest first.
+   */
+  get reflections(): Reflection[] {
+    return [...this.found];
+  }
+
+  /**
+   * Scans the page: probe elements, probe event handlers and `javascript:` URLs in the
+   * DOM, plus probe calls and dialogs since the previous scan. A reflection still in the
+   * DOM is reported once, with the first step it was seen after.
+   * @param step What just happened, for the report
+   */
+  async scan(step: string): Promise<Reflection[]> {
+    await this.page.waitForLoadState('load');
+    const inPage = await this.page.evaluate((attribute) => {
+      const probeWindow = window as unknown as ProbeWindow;
+      const hits = probeWindow.__qaProbeHits ?? [];
+      probeWindow.__qaProbeHits = [];
+      const tag = (element: Element) => element.tagName.toLowerCase();
+
+      const elements = Array.from(
+        document.querySelectorAll(`[${attribute}]`),
+      ).map((element) => ({
+        kind: 'element' as const,
+        detail: `<${tag(element)} ${attribute}="${element.getAttribute(attribute)}">`,
+      }));
+      const attributes = Array.from(document.querySelectorAll('*')).flatMap(
+        (element) =>
+          Array.from(element.attributes)
+            .filter(
+              ({ name, value }) =>
+                value.includes('__qaProbe') &&
+                (name.startsWith('on') || /^\s*javascript:/i.test(value)),
+            )
+            .map(({ name, value }) => ({
+              kind: 'attribute' as const,
+              detail: `<${tag(element)} ${name}="${value}">`,
+            })),
+      );
+      const scripts = hits.map((name) => ({
+        kind: 'script' as const,
+        detail: `__qaProbe('${name}') ran`,
+      }));
+      return [...elements, ...attributes, ...scripts];
+    }, PROBE_ATTRIBUTE);
+
+    const dialogs = this.dialogs.splice(0).map((detail) => ({
+      kind: 'dialog' as const,
+      detail,
+    }));
+    const fresh = [...inPage, ...dialogs]
+      .filter(
+        (reflection) =>
+          !this.found.some(
+            (known) =>
+              known.kind === reflection.kind &&
+              known.detail === reflection.detail,
+          ),
+      )
+      .map((reflection) => ({ ...reflection, step }));
+    this.found.push(...fresh);
+    return fresh;
+  }
+
+  /**
+   * A fillForm() `afterStep` callback that scans after each field, e.g. "zip: html-tag".
+   * @param label What was entered, usually the corpus input name
+   */
+  scanAfter(label: string): (fieldName: string) => Promise<void> {
+    return async (fieldName) => {
+      await this.scan(`${fieldName}: ${label}`);
+    };
+  }
+
+  /**
+   * Asserts that no scan found a reflection.
+   */
+  expectNoReflections(): void {
+    expect(
+      this.found,
+      `Hostile input reflected unescaped or executed:\n${this.found
+        .map(
+          (reflection) =>
+            `  [${reflection.kind}] ${reflection.detail} after ${reflection.step}`,
+        )
+        .join('\n')}`,
+    ).toEqual([]);
+  }
+
+  private async onDialog(dialog: Dialog): Promise<void> {
+    this.dialogs.push(`${dialog.type()} "${dialog.message()}"`);
+    await dialog.dismiss();
+  }
+}
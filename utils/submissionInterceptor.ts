@@ -0,0 +1,272 @@
+import { expect, type Page, type Request, type Route } from '@playwright/test';
+
+import { assetGuardFor } from './assetGuard';
+import { loadDataset } from './dataLoader';
+
+/**
+ * How intercepted submissions are answered.
+ * - success: 200 with a JSON body, no lead reaches the backend
+ * - clientError: 422 validation error
+ * - serverError: 500
+ * - timeout: the request is aborted as timed out
+ * - passthrough: the request goes to the real backend
+ */
+export type SubmissionStub =
+  | 'success'
+  | 'clientError'
+  | 'serverError'
+  | 'timeout'
+  | 'passthrough';
+
+/**
+ * A captured submission request with its parsed body.
+ */
+export interface CapturedSubmission {
+  url: string;
+  method: string;
+  contentType: string;
+  /** Body fields, including hidden inputs; JSON values are stringified */
+  fields: Record<string, string>;
+  rawBody: string;
+}
+
+export interface SubmissionInterceptorOptions {
+  /**
+   * URL pattern of the lead endpoint; defaults to the lead requests described by
+   * `submission` in data/form.json (see isLeadRequest)
+   */
+  urlPattern?: string | RegExp;
+  stub?: SubmissionStub;
+}
+
+const SUBMISSION_METHODS = ['POST', 'PUT', 'PATCH'];
+const SUBMISSION_RESOURCE_TYPES = ['xhr', 'fetch', 'document'];
+
+const stubResponses: Record<
+  Exclude<SubmissionStub, 'timeout' | 'passthrough'>,
+  { status: number; body: object }
+> = {
+  success: { status: 200, body: { success: true } },
+  clientError: {
+    status: 422,
+    body: { success: false, errors: { form: 'Invalid submission' } },
+  },
+  serverError: {
+    status: 500,
+    body: { success: false, error: 'Internal Server Error' },
+  },
+};
+
+/**
+ * Whether a request looks like a form submission: a POST/PUT/PATCH sent by
+ * XHR, fetch or a form post.
+ */
+export function isSubmissionRequest(request: Request): boolean {
+  return (
+    SUBMISSION_METHODS.includes(request.method()) &&
+    SUBMISSION_RESOURCE_TYPES.includes(request.resourceType())
+  );
+}
+
+/**
+ * Whether a submission request carries a lead: it goes to the page's own origin, its
+ * path matches `submission.pathPattern` in data/form.json and none of the `ignore`
+ * patterns (analytics and tracking requests).
+ * @param pageUrl URL of the page that sent the request
+ */
+export function isLeadRequest(request: Request, pageUrl: string): boolean {
+  if (!isSubmissionRequest(request) || !/^https?:/.test(pageUrl)) {
+    return false;
+  }
+  const url = new URL(request.url());
+  if (url.origin !== new URL(pageUrl).origin) {
+    return false;
+  }
+  const { pathPattern, ignore } = loadDataset('form').submission;
+  const path = `${url.pathname}${url.search}`;
+  return (
+    new RegExp(pathPattern, 'i').test(url.pathname) &&
+    !ignore.some((pattern) => new RegExp(pattern, 'i').test(path))
+  );
+}
+
+/**
+ * Parses a multipart/form-data body into its text fields.
+ */
+function parseMultipart(
+  body: string,
+  contentType: string,
+): Record<string, string> {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!boundary) {
+    return {};
+  }
+  const fields: Record<string, string> = {};
+  body.split(`--${boundary[1] ?? boundary[2]}`).forEach((part) => {
+    const name = part.match(/name="([^"]+)"/);
+    const separator = part.indexOf('\r\n\r\n');
+    if (name && separator !== -1) {
+      fields[name[1]] = part.slice(separator + 4).replace(/\r\n$/, '');
+    }
+  });
+  return fields;
+}
+
+/**
+ * Parses a request body into flat string fields based on its content type.
+ */
+export function parseSubmissionBody(
+  rawBody: string,
+  contentType: string,
+): Record<string, string> {
+  if (contentType.includes('application/json')) {
+    try {
+      const parsed = JSON.parse(rawBody) as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : JSON.stringify(value),
+        ]),
+      );
+    } catch {
+      return {};
+    }
+  }
+  if (contentType.includes('multipart/form-data')) {
+    return parseMultipart(rawBody, contentType);
+  }
+  return Object.fromEntries(new URLSearchParams(rawBody));
+}
+
+/**
+ * Captures form submission requests through `page.route` and answers them with a stub.
+ *
+ * @example
+ * const interceptor = await new SubmissionInterceptor(page, { stub: 'serverError' }).start();
+ * await form.fillForm(data);
+ * const [submission] = await interceptor.waitForSubmissions();
+ */
+export class SubmissionInterceptor {
+  private readonly page: Page;
+  private readonly urlPattern?: string | RegExp;
+  private stub: SubmissionStub;
+  private readonly captured: CapturedSubmission[] = [];
+  private readonly handler = (route: Route) => this.handle(route);
+
+  constructor(page: Page, options: SubmissionInterceptorOptions = {}) {
+    this.page = page;
+    this.urlPattern = options.urlPattern;
+    this.stub = options.stub ?? 'success';
+  }
+
+  /**
+   * Starts intercepting. Returns the interceptor for chaining.
+   */
+  async start(): Promise<this> {
+    await this.page.route(this.urlPattern ?? '**/*', this.handler);
+    return this;
+  }
+
+  /**
+   * Stops intercepting; captured submissions are kept.
+   */
+  async stop(): Promise<void> {
+    await this.page.unroute(this.urlPattern ?? '**/*', this.handler);
+  }
+
+  /**
+   * Changes how the following submissions are answered.
+   */
+  respondWith(stub: SubmissionStub): void {
+    this.stub = stub;
+  }
+
+  /**
+   * Submissions captured so far, oldest first.
+   */
+  get submissions(): CapturedSubmission[] {
+    return [...this.captured];
+  }
+
+  /**
+   * Waits until at least `count` submissions were captured.
+   */
+  async waitForSubmissions(
+    count: number = 1,
+    timeout: number = 10000,
+  ): Promise<CapturedSubmission[]> {
+    await expect
+      .poll(() => this.captured.length, {
+        message: `Expected at least ${count} form submission request(s)`,
+        timeout,
+      })
+      .toBeGreaterThanOrEqual(count);
+    return this.submissions;
+  }
+
+  /**
+   * Asserts that no submission is captured during a quiet window. A rejected value may
+   * still send a request a moment after the step changes, so a single read is not enough.
+   * @param quietMs How long the count has to stay at zero
+   */
+  async expectNoSubmissions(quietMs: number = 1000): Promise<void> {
+    const quietUntil = Date.now() + quietMs;
+    await expect
+      .poll(
+        () => {
+          if (this.captured.length > 0) {
+            return `submitted: ${this.captured
+              .map((submission) => `${submission.method} ${submission.url}`)
+              .join(', ')}`;
+          }
+          return Date.now() >= quietUntil ? 'nothing submitted' : 'waiting';
+        },
+        {
+          message: `Expected no form submission within ${quietMs}ms`,
+          intervals: [100],
+          timeout: quietMs + 1000,
+        },
+      )
+      .toBe('nothing submitted');
+  }
+
+  private async handle(route: Route): Promise<void> {
+    const request = route.request();
+    // Requests that are not leads (analytics, other origins) are left alone
+    const isLead = this.urlPattern
+      ? isSubmissionRequest(request)
+      : isLeadRequest(request, this.page.url());
+    if (!isLead) {
+      await route.fallback();
+      return;
+    }
+
+    const contentType = (await request.headerValue('content-type')) ?? '';
+    const rawBody = request.postData() ?? '';
+    this.captured.push({
+      url: request.url(),
+      method: request.method(),
+      contentType,
+      fields: parseSubmissionBody(rawBody, contentType),
+      rawBody,
+    });
+
+    if (this.stub === 'passthrough') {
+      await route.fallback();
+      return;
+    }
+    // Only failure stubs provoke an error the asset guard would report
+    if (this.stub !== 'success') {
+      assetGuardFor(this.page).expectFailure(
+        request.url(),
+        `Submission stubbed with "${this.stub}"`,
+      );
+    }
+    if (this.stub === 'timeout') {
+      await route.abort('timedout');
+      return;
+    }
+    const { status, body } = stubResponses[this.stub];
+    await route.fulfill({ status, json: body });
+  }
+}
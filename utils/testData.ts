@@ -1,33 +1,37 @@
-export const validFormData = {
-  email: 'john.doe@example.com',
-  phone: '1234567890',
-  zip: '12345',
-};
-
-export const invalidEmailFormats = [
-  'invalid-email',
-  'invalid@',
-  '@invalid.com',
-  'invalid@.com',
-  'invalid@com',
-  '',
-];
-
-export const invalidZipCodes = [
-  '1234', // 4 digits
-  '123456', // 6 digits
-  'abcd', // non-digits
-  '1234a', // contains letters
-  '12-45', // contains dash
-  '',
-];
-
-export const invalidPhoneNumbers = [
-  '123456789', // 9 digits
-  '12345678901', // 11 digits
-  'abcd', // non-digits
-  '123-456-7890', // contains dashes
-  '(123)456-7890', // contains parentheses/dashes
-  '123 456 7890', // contains spaces
-  '',
-];
+import { loadDataset } from './dataLoader';
+
+/**
+ * Test data loaded from the datasets in data/ (see utils/dataLoader.ts).
+ * Edit the JSON/YAML files, not this module, to add or change test cases.
+ */
+const formDataset = loadDataset('form');
+
+export const validFormData = formDataset.validFormData;
+
+/**
+ * Quiz form instances rendered on the landing page (DEFECT-006: the form appears twice).
+ * Validation scenarios run against each of them.
+ */
+export const formInstanceIndexes = formDataset.formInstanceIndexes;
+
+/**
+ * Hand-picked regression values per field, run before the generated ones.
+ */
+export const inputExamples = formDataset.examples;
+
+export const sliderData = loadDataset('slider');
+
+export const reviewsData = loadDataset('reviews');
+
+export const locationData = loadDataset('location');
+
+/**
+ * Hostile values for the input sanitation tests, with long values expanded.
+ */
+export const hostileInputs = loadDataset('hostileInputs').inputs.map(
+  ({ name, category, value, repeat }) => ({
+    name,
+    category,
+    value: value ?? (repeat ? repeat.text.repeat(repeat.count) : ''),
+  }),
+);
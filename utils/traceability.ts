@@ -0,0 +1,34 @@
+/**
+ * Links tests to requirement and defect IDs through Playwright annotations.
+ * The traceability reporter (reporters/traceabilityReporter.ts) turns them into a
+ * requirement → tests → status matrix.
+ *
+ * @example
+ * test.describe('Zip Code Validation', { annotation: covers('REQ-2') }, () => { ... });
+ * test('should show "N of M"', { annotation: relatesTo('DEFECT-001') }, async () => { ... });
+ */
+
+export const REQUIREMENT_ANNOTATION = 'requirement';
+export const DEFECT_ANNOTATION = 'defect';
+
+export type RequirementId = `REQ-${number}`;
+export type DefectId = `DEFECT-${string}`;
+
+export interface TraceAnnotation {
+  type: string;
+  description: string;
+}
+
+/**
+ * Marks a test or describe block as covering the given requirements.
+ */
+export function covers(...ids: RequirementId[]): TraceAnnotation[] {
+  return ids.map((id) => ({ type: REQUIREMENT_ANNOTATION, description: id }));
+}
+
+/**
+ * Marks a test or describe block as exercising the given defects.
+ */
+export function relatesTo(...ids: DefectId[]): TraceAnnotation[] {
+  return ids.map((id) => ({ type: DEFECT_ANNOTATION, description: id }));
+}
@@ -0,0 +1,150 @@
+import { expect, type Locator } from '@playwright/test';
+
+import { getActiveEnvironment } from '../config/environments';
+
+/**
+ * Waits for component transitions, scoped to the component's own locator.
+ * Slide changes wait for slick's `afterChange` event on that slider; other
+ * transitions wait for the CSS transitions and animations inside the element to end.
+ * The timeout comes from the environment profile (`timeouts.transition`).
+ */
+
+export interface TransitionWaitOptions {
+  /** Defaults to the active profile's `timeouts.transition` */
+  timeout?: number;
+}
+
+export interface SlickChangeOptions extends TransitionWaitOptions {
+  /**
+   * Slide the action goes to (0-based). When slick already shows it, no afterChange
+   * will fire, so the wait is skipped.
+   */
+  targetIndex?: number;
+}
+
+/** Set on the slider element by the armed afterChange handler */
+const AFTER_CHANGE_ATTRIBUTE = 'data-qa-after-change';
+
+/**
+ * Resolves the transition timeout: the given one or the active profile's.
+ */
+export function transitionTimeout(options: TransitionWaitOptions = {}): number {
+  return options.timeout ?? getActiveEnvironment().timeouts.transition;
+}
+
+/**
+ * Waits until every finite CSS transition and animation in the element's subtree
+ * has finished. Infinite animations (spinners) are ignored.
+ */
+export async function waitForCssTransitions(
+  target: Locator,
+  options: TransitionWaitOptions = {},
+): Promise<void> {
+  const timeout = transitionTimeout(options);
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new Error(`CSS transitions of ${target} did not end in ${timeout}ms`),
+        ),
+      timeout,
+    );
+  });
+  const finished = target.evaluate(async (element) => {
+    const animations = element
+      .getAnimations({ subtree: true })
+      .filter(
+        (animation) =>
+          animation.effect?.getComputedTiming().endTime !== Infinity,
+      );
+    await Promise.all(
+      animations.map((animation) => animation.finished.catch(() => undefined)),
+    );
+  });
+  try {
+    await Promise.race([finished, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs an action on a slick slider and waits for that slider's `afterChange` event.
+ * The handler is attached before the action so a fast change is not missed.
+ * Without jQuery / slick on the page it falls back to waiting for CSS transitions.
+ * @param slider The element slick was initialised on
+ * @param action The click, key press or swipe that changes the slide
+ */
+export async function waitForSlickChange(
+  slider: Locator,
+  action: () => Promise<void>,
+  options: SlickChangeOptions = {},
+): Promise<void> {
+  const armed = await slider.evaluate(
+    (element, { attribute, targetIndex }) => {
+      const jQuery = (
+        window as Window & {
+          jQuery?: (element: Element) => {
+            one: (event: string, handler: () => void) => void;
+          };
+        }
+      ).jQuery;
+      element.removeAttribute(attribute);
+      const slick = (element as Element & { slick?: { currentSlide: number } })
+        .slick;
+      if (!jQuery || !slick) return false;
+      // Already on the target slide: the action changes nothing
+      if (targetIndex !== null && slick.currentSlide === targetIndex) {
+        return false;
+      }
+      jQuery(element).one('afterChange', () =>
+        element.setAttribute(attribute, 'done'),
+      );
+      return true;
+    },
+    {
+      attribute: AFTER_CHANGE_ATTRIBUTE,
+      targetIndex: options.targetIndex ?? null,
+    },
+  );
+
+  await action();
+
+  if (!armed) {
+    await waitForCssTransitions(slider, options);
+    return;
+  }
+  await expect(slider, 'slick afterChange was not fired').toHaveAttribute(
+    AFTER_CHANGE_ATTRIBUTE,
+    'done',
+    { timeout: transitionTimeout(options) },
+  );
+  await slider.evaluate(
+    (element, attribute) => element.removeAttribute(attribute),
+    AFTER_CHANGE_ATTRIBUTE,
+  );
+}
+
+/**
+ * Waits for a class-driven state change on a component (e.g. expanded / collapsed)
+ * and for the CSS transitions it started to end.
+ * @param target The element whose class changes
+ * @param className Class that marks the new state
+ * @param present Whether the class is added (true) or removed (false)
+ */
+export async function waitForClassTransition(
+  target: Locator,
+  className: string,
+  present: boolean,
+  options: TransitionWaitOptions = {},
+): Promise<void> {
+  const timeout = transitionTimeout(options);
+  const classPattern = new RegExp(`(^|\\s)${className}(\\s|$)`);
+  if (present) {
+    await expect(target).toHaveClass(classPattern, { timeout });
+  } else {
+    await expect(target).not.toHaveClass(classPattern, { timeout });
+  }
+  await waitForCssTransitions(target, options);
+}
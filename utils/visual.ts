@@ -0,0 +1,38 @@
+import { expect, type Locator, type Page } from '@playwright/test';
+
+import { loadDataset } from './dataLoader';
+import { VISUAL_COMPONENTS } from './dataSchemas';
+
+/**
+ * Component screenshot baselines.
+ * Tolerances and masked dynamic regions come from data/visual.json; baselines are
+ * stored per browser project (see snapshotPathTemplate in playwright.config.ts).
+ */
+
+export type VisualComponent = (typeof VISUAL_COMPONENTS)[number];
+
+/**
+ * Asserts that a component container matches its baseline `<component>/<name>.png`.
+ * @param page The page the container belongs to, used to build the masks
+ * @param container The component container to capture
+ * @param component Which component's tolerances and masks apply
+ * @param name Baseline name within the component, e.g. "slide-2" or "expanded"
+ */
+export async function expectVisualMatch(
+  page: Page,
+  container: Locator,
+  component: VisualComponent,
+  name: string,
+): Promise<void> {
+  const visual = loadDataset('visual');
+  const {
+    maxDiffPixelRatio,
+    threshold,
+    mask = [],
+  } = visual.components[component];
+  await expect(container).toHaveScreenshot([component, `${name}.png`], {
+    mask: [...visual.mask, ...mask].map((selector) => page.locator(selector)),
+    maxDiffPixelRatio,
+    threshold,
+  });
+}